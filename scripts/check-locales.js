@@ -0,0 +1,87 @@
+// Compares every locale under src/locales with the English reference and
+// reports missing keys, keys English no longer has, and {{placeholders}}
+// that differ. Plural keys (`_one`, `_other`, ...) are checked against the
+// plural forms each language actually uses. Exits non-zero on missing keys
+// or placeholder mismatches, so it can gate a build.
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const LOCALES_DIR = fileURLToPath(new URL('../src/locales', import.meta.url));
+const REFERENCE = 'en';
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+const readJson = path => JSON.parse(readFileSync(path, 'utf8'));
+
+// Leaf strings by dotted path; array items are addressed by index
+const flatten = (value, prefix = '', out = new Map()) => {
+  if (typeof value === 'string') {
+    out.set(prefix, value);
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  }
+  return out;
+};
+
+const placeholders = text => [...text.matchAll(/{{\s*(\w+)\s*}}/g)].map(match => match[1]).sort().join(',');
+
+// Plural keys collapse to their base, expanded to the forms the target language needs
+const expectedKeys = (reference, language) => {
+  const categories = new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+  const keys = new Map();
+  for (const [key, text] of reference) {
+    if (!PLURAL_SUFFIX.test(key)) {
+      keys.set(key, text);
+      continue;
+    }
+    const base = key.replace(PLURAL_SUFFIX, '');
+    for (const category of categories) {
+      keys.set(`${base}_${category}`, reference.get(`${base}_${category}`) ?? reference.get(`${base}_other`) ?? text);
+    }
+  }
+  return keys;
+};
+
+const namespaces = readdirSync(join(LOCALES_DIR, REFERENCE)).filter(file => file.endsWith('.json'));
+const languages = readdirSync(LOCALES_DIR).filter(language => language !== REFERENCE);
+
+let problems = 0;
+let warnings = 0;
+
+for (const language of languages) {
+  for (const namespace of namespaces) {
+    const label = `${language}/${namespace}`;
+    let translated;
+    try {
+      translated = flatten(readJson(join(LOCALES_DIR, language, namespace)));
+    } catch (error) {
+      console.error(`${label}: ${error.code === 'ENOENT' ? 'file missing' : error.message}`);
+      problems++;
+      continue;
+    }
+
+    const expected = expectedKeys(flatten(readJson(join(LOCALES_DIR, REFERENCE, namespace))), language);
+
+    for (const [key, text] of expected) {
+      if (!translated.has(key)) {
+        console.error(`${label}: missing ${key}`);
+        problems++;
+      } else if (placeholders(translated.get(key)) !== placeholders(text)) {
+        console.error(`${label}: ${key} uses {{${placeholders(translated.get(key))}}}, expected {{${placeholders(text)}}}`);
+        problems++;
+      }
+    }
+
+    for (const key of translated.keys()) {
+      if (!expected.has(key)) {
+        console.warn(`${label}: unused ${key}`);
+        warnings++;
+      }
+    }
+  }
+}
+
+console.log(`Checked ${languages.length} locales against ${REFERENCE}: ${problems} problems, ${warnings} warnings.`);
+process.exitCode = problems > 0 ? 1 : 0;
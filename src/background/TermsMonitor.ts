@@ -0,0 +1,109 @@
+/// <reference types="chrome"/>
+import { storageService } from '../services/StorageService';
+import { extractTermsFromHtml } from '../utils/termsExtractor';
+import { hashText } from '../utils/hash';
+import { getBackgroundT } from './backgroundI18n';
+import type { WatchedPage } from '../types/monitor';
+
+export const MONITOR_ALARM = 'terms-monitor';
+
+// Loads a page's HTML; injectable so tests can point it at a local fixture server
+export type PageFetcher = (url: string) => Promise<string>;
+
+// Called when a watched page's terms differ from the last check
+export type ChangeNotifier = (watch: WatchedPage) => void | Promise<void>;
+
+export const fetchPage: PageFetcher = async (url) => {
+  const response = await fetch(url, {
+    credentials: 'omit',
+    cache: 'no-cache',
+    headers: { Accept: 'text/html' }
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return await response.text();
+};
+
+export const notifyChange: ChangeNotifier = async (watch) => {
+  const t = await getBackgroundT();
+  chrome.notifications.create(`${MONITOR_ALARM}:${watch.url}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+    title: t('common:notifications.termsChangedTitle'),
+    message: t('common:notifications.termsChangedMessage', { site: watch.title || new URL(watch.url).hostname }),
+    priority: 1
+  });
+};
+
+export class TermsMonitor {
+  private fetcher: PageFetcher;
+  private notifier: ChangeNotifier;
+
+  constructor(fetcher: PageFetcher = fetchPage, notifier: ChangeNotifier = notifyChange) {
+    this.fetcher = fetcher;
+    this.notifier = notifier;
+  }
+
+  async watch(url: string, title: string = ''): Promise<WatchedPage> {
+    const existing = await storageService.getWatch(url);
+    if (existing) return existing;
+
+    const watch: WatchedPage = { url, title, addedAt: Date.now() };
+    // The first check records the baseline hash; it never notifies
+    return await this.check(watch);
+  }
+
+  async unwatch(url: string) {
+    await storageService.deleteWatch(url);
+  }
+
+  async checkAll(): Promise<WatchedPage[]> {
+    const watches = await storageService.getWatches();
+    const results: WatchedPage[] = [];
+
+    // Sequential on purpose: a handful of pages, and no burst of requests
+    for (const watch of watches) {
+      results.push(await this.check(watch));
+    }
+
+    return results;
+  }
+
+  async check(watch: WatchedPage): Promise<WatchedPage> {
+    const updated: WatchedPage = { ...watch, lastCheckedAt: Date.now() };
+
+    try {
+      const html = await this.fetcher(watch.url);
+      const detection = extractTermsFromHtml(html, watch.url);
+      if (!detection.found || !detection.content) {
+        throw new Error('No terms found on the page');
+      }
+
+      const contentHash = await hashText(detection.content);
+      if (watch.contentHash && watch.contentHash !== contentHash) {
+        updated.lastChangedAt = updated.lastCheckedAt;
+        await this.notifier(updated);
+      }
+
+      updated.contentHash = contentHash;
+      updated.title = watch.title || detection.title || '';
+      delete updated.lastError;
+    } catch (error) {
+      console.error(`Failed to check ${watch.url}:`, error);
+      updated.lastError = error instanceof Error ? error.message : 'Check failed';
+    }
+
+    await storageService.saveWatch(updated);
+    return updated;
+  }
+}
+
+// (Re)creates the periodic alarm; Chrome keeps alarms across service worker restarts
+export async function scheduleMonitor(intervalHours: number) {
+  const existing = await chrome.alarms.get(MONITOR_ALARM);
+  const periodInMinutes = Math.max(intervalHours, 1) * 60;
+  if (existing?.periodInMinutes === periodInMinutes) return;
+
+  await chrome.alarms.create(MONITOR_ALARM, { periodInMinutes, delayInMinutes: 1 });
+}
@@ -0,0 +1,54 @@
+/// <reference types="chrome"/>
+import { storageService } from '../services/StorageService';
+import { settingsService } from '../services/SettingsService';
+import type { ExtensionSettings } from '../services/SettingsService';
+import { analysisVersion } from '../services/providers';
+import { rescoreResult } from '../utils/riskScoring';
+import type { AnalysisResult } from '../types/analysis';
+
+export const CACHE_CLEANUP_ALARM = 'analysis-cache-cleanup';
+
+// Expired and least recently used entries are cleared out a few times a day
+const CLEANUP_PERIOD_MINUTES = 6 * 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AnalysisLookup {
+  url?: string;
+  content?: string;
+  language: string;
+  peek?: boolean;
+}
+
+// Reuses an analysis made with the current prompts and model, found by text or by URL alias,
+// scored with the current category weights
+export async function findCachedAnalysis(lookup: AnalysisLookup, settings?: ExtensionSettings): Promise<AnalysisResult | null> {
+  const current = settings ?? await settingsService.getSettings();
+  const entry = await storageService.getCachedAnalysis({
+    ...lookup,
+    version: analysisVersion(current),
+    maxAgeMs: current.cacheTtlHours * HOUR_MS
+  });
+  return entry ? rescoreResult(entry.result, current.categoryWeights) : null;
+}
+
+export async function cacheAnalysisResult(
+  url: string | undefined,
+  content: string,
+  result: AnalysisResult,
+  language: string,
+  settings: ExtensionSettings
+) {
+  await storageService.cacheAnalysis(url, content, result, language, analysisVersion(settings));
+}
+
+export async function pruneAnalysisCache(): Promise<number> {
+  const settings = await settingsService.getSettings();
+  return storageService.pruneCache(settings.cacheTtlHours * HOUR_MS, settings.cacheMaxEntries);
+}
+
+// Chrome keeps alarms across service worker restarts, so this only creates it once
+export async function scheduleCacheCleanup() {
+  if (await chrome.alarms.get(CACHE_CLEANUP_ALARM)) return;
+  await chrome.alarms.create(CACHE_CLEANUP_ALARM, { periodInMinutes: CLEANUP_PERIOD_MINUTES, delayInMinutes: 1 });
+}
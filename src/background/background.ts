@@ -1,26 +1,96 @@
 /// <reference types="chrome"/>
 import { GEMINI_API_KEY } from '../config/apiKey';
-import { storageService } from '../services/StorageService';
+import { getDomain, storageService } from '../services/StorageService';
 import { NetworkManager } from '../services/NetworkManager';
+import { settingsService } from '../services/SettingsService';
+import type { ExtensionSettings } from '../services/SettingsService';
+import { analysisVersion, createProvider, describeModel, isProviderConfigured, ProviderError, TERMS_TEXT_MARKER } from '../services/providers';
+import type { AnalysisOptions, AnalysisProvider, StreamListener } from '../services/providers';
+import { FINDING_CATEGORIES } from '../types/analysis';
+import type { AnalysisResult, DocumentType, Finding, FindingCategory, OfflineReason, Severity } from '../types/analysis';
+import { USER_RIGHTS } from '../types/privacy';
+import type { PrivacyPractices, ThirdPartySharing, UserRight, UserRightType } from '../types/privacy';
+import { chunkText } from '../utils/textChunker';
+import { mergeAnalysisResults } from '../utils/analysisMerger';
+import { locateQuote, verifyFindings } from '../utils/quoteLocator';
+import { handleMessages, sendMessage } from '../services/messaging';
+import { fetchPage, MONITOR_ALARM, scheduleMonitor, TermsMonitor } from './TermsMonitor';
+import { updateBadge } from './badge';
+import { backupService } from '../services/BackupService';
+import { historySync, SYNC_KEY_PREFIX } from '../services/HistorySync';
+import { CACHE_CLEANUP_ALARM, cacheAnalysisResult, findCachedAnalysis, pruneAnalysisCache, scheduleCacheCleanup } from './analysisCache';
+import { diffStats, diffTerms } from '../utils/termsDiff';
+import { extractLinkedDocument } from '../utils/termsExtractor';
+import { classifyDocument } from '../utils/documentClassifier';
+import { analyzeWithRules } from '../utils/ruleAnalyzer';
+import { rescoreResult, scoreFindings } from '../utils/riskScoring';
+import type { CategoryWeights } from '../utils/riskScoring';
+import type { PartialAnalysis } from '../utils/analysisMerger';
+import { compareAnalyses } from '../utils/termsComparison';
+import type { ComparisonInput } from '../utils/termsComparison';
+import type { ComparedService, ComparisonSource, TermsComparison } from '../types/comparison';
+import type { ChatMessage } from '../types/chat';
+import { selectRelevantPassages } from '../utils/passageRetrieval';
+import { readPartialAnalysis } from '../utils/partialAnalysis';
+import { ANALYSIS_PORT_NAME } from '../types/stream';
+import { AnalysisError } from '../types/errors';
+import { buildRepairPrompt, parseStructured, StructuredOutputError } from '../utils/structuredOutput';
+import type { SchemaNode } from '../utils/structuredOutput';
+import { analysisSchema, ANSWER_SCHEMA, CHANGES_SCHEMA, NARRATIVE_SCHEMA, SUMMARY_SCHEMA, TRANSLATION_SCHEMA } from './responseSchemas';
+import type { AnalysisResponse } from './responseSchemas';
+import type { AnalysisPreview, AnalysisStreamEvent, AnalysisStreamRequest } from '../types/stream';
+import type { ChangeAssessment, DiffEntry, TermsChangeReport } from '../types/changes';
+import type { TermsTranslation, TranslatedSection } from '../types/translation';
+import type { HistoryEntry } from '../types/history';
+import { hashText } from '../utils/hash';
+import { promptLanguageName } from '../i18n/locales';
 import axios, { AxiosError } from 'axios';
 import axiosRetry from 'axios-retry';
 
 
-interface AnalysisResult {
-  summary: string;
-  riskLevel: 'low' | 'medium' | 'high';
-  keyPoints: string[];
-  redFlags: string[];
-  timestamp: number;
+// Upper bound on model calls per document; anything beyond is reported as uncovered
+const MAX_CHUNKS = 10;
+
+// Changed text sent for change analysis is capped to keep the prompt small
+const MAX_CHANGES_LENGTH = 15000;
+
+// Terms text sent with each chat question, picked by relevance when the document is longer
+const MAX_CHAT_CONTEXT_LENGTH = 12000;
+
+// Earlier messages included so follow-up questions make sense
+const CHAT_HISTORY_MESSAGES = 6;
+
+// Sections are translated one model call each, so they stay short enough to translate in full
+const TRANSLATION_SECTION_LENGTH = 3000;
+const MAX_TRANSLATION_SECTIONS = 20;
+
+// A translation is usually longer than its source, especially in Indic scripts
+const MIN_TRANSLATION_OUTPUT_TOKENS = 4096;
+
+// How each document type is referred to in prompts
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  terms: 'Terms and Conditions',
+  privacy: 'privacy policy'
+};
+
+interface ChunkContext {
+  index: number;
+  total: number;
+  heading?: string;
+}
+
+// Lets a streaming caller follow an analysis as it runs and cancel it
+interface AnalysisObserver {
+  signal: AbortSignal;
+  onProgress(chunk: number, totalChunks: number): void;
+  onPreview(preview: AnalysisPreview): void;
 }
 
 class AIProcessor {
-  private apiKey: string;
   private networkManager: NetworkManager;
   private retryCount: number = 3;
 
   constructor() {
-    this.apiKey = GEMINI_API_KEY;
     this.networkManager = NetworkManager.getInstance();
 
     // Configure axios retry
@@ -32,206 +102,999 @@ class AIProcessor {
           error.response?.status === 429;
       }
     });
+  }
 
-    if (!this.apiKey || this.apiKey.includes('ABC123')) {
-      console.error('❌ Please set your real Gemini API key in src/config/apiKey.ts');
-    } else {
-      console.log('✅ Gemini API key loaded successfully');
+  // Settings are read on every run so changes on the options page apply immediately
+  private async loadSettings(): Promise<ExtensionSettings> {
+    const settings = await settingsService.getSettings();
+
+    // Development builds may still bake a key into src/config/apiKey.ts
+    if (!settings.geminiApiKey && GEMINI_API_KEY && GEMINI_API_KEY !== 'YOUR-API-KEY') {
+      settings.geminiApiKey = GEMINI_API_KEY;
     }
+
+    return settings;
   }
 
-  async processTerms(termsText: string, language: string, url?: string): Promise<AnalysisResult> {
-    if (!this.apiKey) {
-      throw new Error('Extension is not properly configured. Please contact support.');
+  async processTerms(
+    termsText: string,
+    language: string,
+    url?: string,
+    title?: string,
+    documentType?: DocumentType,
+    observer?: AnalysisObserver
+  ): Promise<AnalysisResult> {
+    const settings = await this.loadSettings();
+    if (!isProviderConfigured(settings)) {
+      return this.analyzeOffline(termsText, 'not-configured', documentType, settings.categoryWeights);
     }
+    const provider = createProvider(settings);
 
-    // Check for cached result first
-    if (url) {
-      const cachedResult = await storageService.getCachedAnalysis(url, language);
-      if (cachedResult && cachedResult.content === termsText) {
-        return cachedResult.result;
-      }
+    // The same text analyzed before (on this or any other URL) is reused
+    const cachedResult = await findCachedAnalysis({ url, content: termsText, language }, settings);
+    if (cachedResult) {
+      return cachedResult;
     }
 
-    // Check network connectivity
-    if (!this.networkManager.isNetworkAvailable()) {
-      throw new Error('No internet connection. Please try again when online.');
+    // Check network connectivity (the mock provider never leaves the machine)
+    if (provider.id !== 'mock' && !this.networkManager.isNetworkAvailable()) {
+      return this.analyzeOffline(termsText, 'offline', documentType, settings.categoryWeights);
     }
 
     try {
-      const summary = await this.callGeminiAPI(termsText, language);
-      const result = this.parseAIResponse(summary);
-      const finalResult = {
+      const options: AnalysisOptions = {
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxOutputTokens,
+        signal: observer?.signal
+      };
+      const type = documentType ?? classifyDocument(termsText, title, url);
+      const result = await this.analyzeInChunks(provider, termsText, language, options, type, settings.categoryWeights, observer);
+      const ruleCheck = analyzeWithRules(termsText, settings.categoryWeights);
+      const finalResult: AnalysisResult = {
         ...result,
+        documentType: type,
+        source: 'ai',
+        ruleCheck,
+        model: describeModel(settings),
         timestamp: Date.now()
       };
 
-      // Cache the result if URL is provided
       if (url) {
-        await storageService.cacheAnalysis(url, termsText, finalResult, language);
+        finalResult.changes = await this.trackChanges(provider, url, termsText, language, options);
       }
 
-      return finalResult;
-    } catch (error) {
-      if (!this.networkManager.isNetworkAvailable()) {
-        throw new Error('Lost internet connection. Please try again when online.');
+      // Steps after the main analysis can be cancelled too; nothing partial may be stored
+      if (observer?.signal?.aborted) {
+        throw new AnalysisError('cancelled', 'Analysis cancelled.');
       }
 
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again in a few minutes.');
-        }
-        if (error.response?.status === 403) {
-          throw new Error('API key invalid or expired. Please check your configuration.');
-        }
+      await cacheAnalysisResult(url, termsText, finalResult, language, settings);
+
+      // Record the run in history if URL is provided
+      if (url) {
+        await storageService.addHistoryEntry({
+          url,
+          title: title ?? '',
+          language,
+          timestamp: finalResult.timestamp,
+          riskLevel: finalResult.riskLevel,
+          result: finalResult
+        }).catch(error => console.error('Failed to record history entry:', error));
+        pushSyncedHistory().catch(error => console.error('History sync failed:', error));
       }
 
-      console.error('AI processing failed:', error);
-      throw new Error('Analysis failed. Please try again later.');
+      return finalResult;
+    } catch (error) {
+      throw this.toAnalysisError(error, observer?.signal);
+    }
+  }
+
+  // Classifies a failed model run so the UI can explain it
+  private toAnalysisError(error: unknown, signal?: AbortSignal): AnalysisError {
+    if (error instanceof AnalysisError) return error;
+    if (signal?.aborted) {
+      return new AnalysisError('cancelled', 'Analysis cancelled.');
     }
+    if (!this.networkManager.isNetworkAvailable()) {
+      return new AnalysisError('offline', 'Lost internet connection. Please try again when online.');
+    }
+
+    const status = error instanceof ProviderError ? error.status :
+      axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (status === 429) {
+      return new AnalysisError('rate-limited', 'Rate limit exceeded. Please try again in a few minutes.');
+    }
+    if (status === 401 || status === 403) {
+      return new AnalysisError('auth', 'API key invalid or expired. Please check your configuration.');
+    }
+    if (error instanceof StructuredOutputError) {
+      return new AnalysisError('invalid-response', 'The AI response was not in the expected format, even after a retry. Please try again.');
+    }
+
+    console.error('AI processing failed:', error);
+    return new AnalysisError('failed', 'Analysis failed. Please try again later.');
   }
 
-  private async callGeminiAPI(text: string, language: string): Promise<string> {
-    const prompt = this.buildPrompt(text, language);
+  /**
+   * Runs a prompt whose answer must match the schema. A response that doesn't
+   * gets one repair attempt that shows the model its validation errors.
+   */
+  private async generateStructured<T>(
+    provider: AnalysisProvider,
+    prompt: string,
+    schema: SchemaNode,
+    options: AnalysisOptions,
+    onText?: StreamListener
+  ): Promise<T> {
+    const response = onText
+      ? await provider.analyzeStream(prompt, onText, options)
+      : await provider.analyze(prompt, options);
+    const first = parseStructured<T>(response, schema);
+    if (first.ok) return first.value;
 
-    // Truncate text if too long (Gemini has a token limit)
-    const truncatedPrompt = prompt.length > 30000 ? prompt.substring(0, 30000) + '...' : prompt;
+    console.warn(`Invalid ${provider.id} response, asking for a repair:`, first.errors);
+    const repaired = parseStructured<T>(
+      await provider.analyze(buildRepairPrompt(prompt, response, first.errors), options),
+      schema
+    );
+    if (repaired.ok) return repaired.value;
+
+    console.error(`Repaired ${provider.id} response is still invalid:`, repaired.errors);
+    throw new StructuredOutputError(repaired.errors);
+  }
+
+  /**
+   * Pattern-library analysis used when no model can be reached or the user
+   * asks for it. Never cached, so a later AI run isn't shadowed by it.
+   */
+  analyzeOffline(
+    termsText: string,
+    reason: OfflineReason,
+    documentType?: DocumentType,
+    weights?: CategoryWeights
+  ): AnalysisResult {
+    const { version, riskLevel, riskScore, findings } = analyzeWithRules(termsText, weights);
+    const categories = new Set(findings.map(finding => finding.category)).size;
+
+    return {
+      summary: `Offline pattern check found ${findings.length} notable clauses in ${categories} categories.`,
+      riskLevel,
+      riskScore,
+      keyPoints: [],
+      redFlags: findings.filter(finding => finding.severity === 'high').map(finding => finding.title),
+      findings,
+      timestamp: Date.now(),
+      documentType: documentType ?? classifyDocument(termsText),
+      source: 'rules',
+      offlineReason: reason,
+      model: `rules/${version}`
+    };
+  }
+
+  /**
+   * Compares two analyses category by category, then asks the model for a
+   * short narrative. The comparison itself never depends on the model call.
+   */
+  async compareServices(left: ComparisonInput, right: ComparisonInput, language: string): Promise<TermsComparison> {
+    const settings = await this.loadSettings();
+    const comparison: TermsComparison = compareAnalyses(left, right, settings.categoryWeights);
+
+    if (!isProviderConfigured(settings)) return comparison;
+    const provider = createProvider(settings);
+    if (provider.id !== 'mock' && !this.networkManager.isNetworkAvailable()) return comparison;
+
+    // Older and synced entries kept only a summary and a risk level, not their clauses
+    const describeSide = (label: string, input: ComparisonInput, service: ComparedService) => service.score === undefined
+      ? `${label}: ${input.title || input.url} (${service.riskLevel} risk; clause details not available)
+Summary: ${input.result.summary}`
+      : `${label}: ${input.title || input.url} (risk score ${service.score}/100)
+Summary: ${input.result.summary}
+Findings:
+${(input.result.findings ?? []).map(finding => `- [${finding.category}, ${finding.severity}] ${finding.title}: ${finding.explanation}`).join('\n') || '- none'}`;
+
+    const prompt = `
+You are a legal document analyzer helping a team choose between two services.
+Compare their terms from the user's point of view: which is more permissive towards the company on each important point, and which is better overall.
+${this.getLanguageInstruction(language)}
+
+YOUR RESPONSE MUST BE VALID JSON WITH THIS EXACT STRUCTURE:
+{
+  "narrative": "3-5 sentences comparing the two services and recommending one"
+}
+
+DO NOT include any text before or after the JSON.
+
+${describeSide('Service A', left, comparison.left)}
+
+${describeSide('Service B', right, comparison.right)}`;
 
     try {
-      const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-goog-api-key': this.apiKey
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: truncatedPrompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.3,
-            topP: 0.8,
-            topK: 40,
-            maxOutputTokens: 2048
-          }
-        })
+      const parsed = await this.generateStructured<{ narrative: string }>(provider, prompt, NARRATIVE_SCHEMA, {
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxOutputTokens
       });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('Gemini API error response:', errorData);
-        throw new Error(`Gemini API Error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
+      if (parsed.narrative) {
+        comparison.narrative = parsed.narrative;
       }
+    } catch (error) {
+      console.error('Comparison narrative failed:', error);
+    }
 
-      const data = await response.json();
-      console.log('Gemini API raw response:', JSON.stringify(data, null, 2));
+    return comparison;
+  }
 
-      if (!data.candidates || !Array.isArray(data.candidates) || data.candidates.length === 0) {
-        console.error('No candidates in response:', data);
-        throw new Error('No response generated by the API');
-      }
+  /**
+   * Answers a question from the terms text alone. Quotes that can't be found
+   * in the text are dropped, like findings' quotes.
+   */
+  async answerQuestion(
+    termsText: string,
+    question: string,
+    history: ChatMessage[],
+    language: string
+  ): Promise<ChatMessage> {
+    const settings = await this.loadSettings();
+    if (!isProviderConfigured(settings)) {
+      throw new AnalysisError('not-configured', 'No API key configured. Open Settings to add one.');
+    }
+    const provider = createProvider(settings);
+    if (provider.id !== 'mock' && !this.networkManager.isNetworkAvailable()) {
+      throw new AnalysisError('offline', 'No internet connection. Please try again when online.');
+    }
+
+    const conversation = history.slice(-CHAT_HISTORY_MESSAGES)
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+      .join('\n');
+    // Long terms are cut down to the passages that look relevant, which may miss the answer
+    const partial = termsText.length > MAX_CHAT_CONTEXT_LENGTH;
+    const prompt = `
+You are a legal document assistant. Answer the user's question using ONLY the terms below.
+${this.getLanguageInstruction(language)}
+
+YOUR RESPONSE MUST BE VALID JSON WITH THIS EXACT STRUCTURE:
+{
+  "answer": "Short, plain-language answer",
+  "addressed": true,
+  "quotes": ["Exact sentence copied from the terms that supports the answer"]
+}
 
-      const candidate = data.candidates[0];
-      if (!candidate.content || !candidate.content.parts || !Array.isArray(candidate.content.parts)) {
-        console.error('Invalid candidate format:', candidate);
-        throw new Error('Invalid response format from API');
+If the terms do not address the question, set "addressed" to false, say so in "answer" and leave "quotes" empty. Do not guess from general knowledge.
+Each quote MUST be copied character for character from the terms, in their original language.
+${partial ? '\nOnly excerpts of the terms are included; omitted parts are marked […]. If the excerpts do not answer the question, say they do not cover it rather than that the terms lack it.\n' : ''}
+DO NOT include any text before or after the JSON.
+${conversation ? `\nConversation so far:\n${conversation}\n` : ''}
+Question: ${question}
+
+${TERMS_TEXT_MARKER}
+${selectRelevantPassages(termsText, question, MAX_CHAT_CONTEXT_LENGTH)}`;
+
+    let parsed: { answer: string; addressed: boolean; quotes: string[] };
+    try {
+      parsed = await this.generateStructured(provider, prompt, ANSWER_SCHEMA, {
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxOutputTokens
+      });
+    } catch (error) {
+      throw this.toAnalysisError(error);
+    }
+    if (!parsed.answer) {
+      throw new AnalysisError('invalid-response', 'The AI returned an empty answer. Please try again.');
+    }
+
+    return {
+      role: 'assistant',
+      content: parsed.answer,
+      quotes: parsed.quotes.filter(quote => locateQuote(termsText, quote) !== null),
+      notAddressed: !parsed.addressed,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Translates the terms section by section, keeping each section next to its
+   * original. Cached per text and language, so reopening the same terms (on any
+   * URL) costs nothing.
+   */
+  async translateTerms(termsText: string, language: string): Promise<TermsTranslation> {
+    const settings = await this.loadSettings();
+    if (!isProviderConfigured(settings)) {
+      throw new AnalysisError('not-configured', 'No API key configured. Open Settings to add one.');
+    }
+    const provider = createProvider(settings);
+
+    const contentHash = await hashText(termsText);
+    const version = analysisVersion(settings);
+    const cached = await storageService.getTranslation(contentHash, language, version);
+    if (cached) return cached;
+
+    if (provider.id !== 'mock' && !this.networkManager.isNetworkAvailable()) {
+      throw new AnalysisError('offline', 'No internet connection. Please try again when online.');
+    }
+
+    const chunks = chunkText(termsText, TRANSLATION_SECTION_LENGTH);
+    const sections: TranslatedSection[] = [];
+    try {
+      for (const chunk of chunks.slice(0, MAX_TRANSLATION_SECTIONS)) {
+        const parsed = await this.generateStructured<{ translation: string }>(
+          provider,
+          this.buildTranslationPrompt(chunk.text, language),
+          TRANSLATION_SCHEMA,
+          {
+            temperature: settings.temperature,
+            maxOutputTokens: Math.max(settings.maxOutputTokens, MIN_TRANSLATION_OUTPUT_TOKENS)
+          }
+        );
+        sections.push({ index: chunk.index, heading: chunk.heading, original: chunk.text, translated: parsed.translation });
       }
+    } catch (error) {
+      throw this.toAnalysisError(error);
+    }
+
+    const translation: TermsTranslation = {
+      contentHash,
+      language,
+      sections,
+      truncated: chunks.length > MAX_TRANSLATION_SECTIONS,
+      model: describeModel(settings),
+      timestamp: Date.now()
+    };
+    await storageService.saveTranslation(translation, version);
+    return translation;
+  }
+
+  private buildTranslationPrompt(sectionText: string, language: string): string {
+    return `
+Translate the section of a legal document below into ${promptLanguageName(language)}.
+Translate faithfully and completely: do not summarize, soften, explain or leave anything out.
+Keep headings, numbering and paragraph breaks. Keep names of companies, products and laws as they are.
+
+YOUR RESPONSE MUST BE VALID JSON WITH THIS EXACT STRUCTURE:
+{
+  "translation": "The translated section"
+}
 
-      const text = candidate.content.parts[0]?.text;
-      if (!text) {
-        console.error('No text in response parts:', candidate.content.parts);
-        throw new Error('No text content in API response');
+DO NOT include any text before or after the JSON.
+
+${TERMS_TEXT_MARKER}
+${sectionText}`;
+  }
+
+  // Compares against the previous stored version and snapshots the current one
+  private async trackChanges(
+    provider: AnalysisProvider,
+    url: string,
+    termsText: string,
+    language: string,
+    options: AnalysisOptions
+  ): Promise<TermsChangeReport | undefined> {
+    try {
+      const previous = await storageService.getLatestSnapshot(url);
+      const current = await storageService.saveSnapshot(url, termsText);
+      if (!previous || previous.contentHash === current.contentHash) return undefined;
+
+      const diff = diffTerms(previous.content, termsText);
+      if (diff.length === 0) return undefined;
+
+      const assessment = await this.analyzeChanges(provider, diff, language, options)
+        .catch(error => {
+          if (options.signal?.aborted) throw error;
+          console.error('Change analysis failed:', error);
+          return undefined;
+        });
+
+      return {
+        previousTimestamp: previous.timestamp,
+        diff,
+        stats: diffStats(diff),
+        assessment
+      };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error('Change tracking failed:', error);
+      return undefined;
+    }
+  }
+
+  // Asks the model about only the changed paragraphs, not the whole document
+  private async analyzeChanges(
+    provider: AnalysisProvider,
+    diff: DiffEntry[],
+    language: string,
+    options: AnalysisOptions
+  ): Promise<ChangeAssessment> {
+    const changesText = diff.map(entry => {
+      const section = entry.section ? ` (section: ${entry.section})` : '';
+      switch (entry.type) {
+        case 'added':
+          return `ADDED${section}:\n${entry.after}`;
+        case 'removed':
+          return `REMOVED${section}:\n${entry.before}`;
+        case 'modified':
+          return `CHANGED${section}:\nBEFORE: ${entry.before}\nAFTER: ${entry.after}`;
       }
+    }).join('\n\n').substring(0, MAX_CHANGES_LENGTH);
+
+    const prompt = `
+You are a legal document analyzer. A website updated its Terms and Conditions. Below are only the parts that changed.
+Explain what changed and whether it matters to a user.
+${this.getLanguageInstruction(language)}
+
+YOUR RESPONSE MUST BE VALID JSON WITH THIS EXACT STRUCTURE:
+{
+  "summary": "1-2 sentences on what changed overall",
+  "significance": "low|medium|high",
+  "changes": [
+    { "change": "What changed", "impact": "Why it matters (or doesn't) for the user" }
+  ]
+}
+
+DO NOT include any text before or after the JSON.
+
+${changesText}`;
+
+    const parsed = await this.generateStructured<{
+      summary: string;
+      significance: Severity;
+      changes: { change: string; impact: string }[];
+    }>(provider, prompt, CHANGES_SCHEMA, options);
+
+    return {
+      summary: parsed.summary,
+      significance: parsed.significance,
+      items: parsed.changes.map(({ change, impact }) => ({ change, impact }))
+    };
+  }
+
+  // Map step: analyze each section-aligned chunk. Reduce step: merge the partial results.
+  private async analyzeInChunks(
+    provider: AnalysisProvider,
+    termsText: string,
+    language: string,
+    options: AnalysisOptions,
+    documentType: DocumentType,
+    weights: CategoryWeights,
+    observer?: AnalysisObserver
+  ): Promise<Omit<AnalysisResult, 'timestamp'>> {
+    const chunks = chunkText(termsText);
+    const selectedChunks = chunks.slice(0, MAX_CHUNKS);
+    const partials: PartialAnalysis[] = [];
+    let analyzedCharacters = 0;
+    let firstError: unknown = null;
+
+    for (const chunk of selectedChunks) {
+      observer?.onProgress(chunk.index + 1, selectedChunks.length);
+      const onText: StreamListener | undefined = observer &&
+        (text => observer.onPreview(this.buildPreview(partials, text)));
 
-      // Try to parse the response as JSON to verify format
       try {
-        const parsed = JSON.parse(text);
-        if (!parsed.summary || !parsed.riskLevel || !Array.isArray(parsed.keyPoints) || !Array.isArray(parsed.redFlags)) {
-          throw new Error('Response missing required fields');
-        }
-        return text;
-      } catch (parseError) {
-        console.error('Failed to parse API response as JSON:', text);
-        throw new Error('API response is not in valid JSON format');
+        const response = await this.callProvider(provider, chunk.text, language, options, {
+          index: chunk.index,
+          total: selectedChunks.length,
+          heading: chunk.heading
+        }, documentType, onText);
+        partials.push(this.parseAIResponse(response, documentType));
+        analyzedCharacters += chunk.text.length;
+      } catch (error) {
+        // Cancelling stops the whole run rather than skipping a chunk
+        if (options.signal?.aborted) throw error;
+
+        // A single failed chunk only reduces coverage; the rest still count
+        console.error(`Chunk ${chunk.index + 1}/${selectedChunks.length} failed:`, error);
+        firstError = firstError ?? error;
+      }
+    }
+
+    if (partials.length === 0) {
+      throw firstError ?? new Error('No terms text to analyze');
+    }
+
+    const merged = mergeAnalysisResults(partials);
+    merged.findings = verifyFindings(merged.findings, termsText);
+    if (partials.length > 1) {
+      merged.summary = await this.summarizePartials(provider, partials.map(partial => partial.summary), language, options, documentType)
+        .catch(error => {
+          // A cancel isn't a failed summary; it has to end the whole run
+          if (options.signal?.aborted) throw error;
+          console.error('Failed to combine chunk summaries:', error);
+          return merged.summary;
+        });
+    }
+
+    // Scored on the verified findings so the label never rests on a dropped quote
+    const riskScore = scoreFindings(merged.findings, weights);
+
+    return {
+      ...merged,
+      riskLevel: riskScore.level,
+      riskScore,
+      coverage: {
+        analyzedCharacters,
+        totalCharacters: chunks.reduce((total, chunk) => total + chunk.text.length, 0),
+        analyzedChunks: partials.length,
+        totalChunks: chunks.length
       }
+    };
+  }
+
+  // Finished chunks plus whatever of the current chunk has streamed in so far
+  private buildPreview(finished: PartialAnalysis[], streamed: string): AnalysisPreview {
+    const current = readPartialAnalysis(streamed);
+    return {
+      summary: finished[0]?.summary || current.summary,
+      findings: [
+        ...finished.flatMap(partial => partial.findings),
+        ...this.parseFindings(current.findings)
+      ]
+    };
+  }
+
+  private async summarizePartials(
+    provider: AnalysisProvider,
+    summaries: string[],
+    language: string,
+    options: AnalysisOptions,
+    documentType: DocumentType
+  ): Promise<string> {
+    const prompt = `
+You are a legal document analyzer. The summaries below each describe one part of the same ${DOCUMENT_LABELS[documentType]} document.
+Combine them into one 2-3 sentence summary of the whole document in simple language.
+${this.getLanguageInstruction(language)}
 
+YOUR RESPONSE MUST BE VALID JSON WITH THIS EXACT STRUCTURE:
+{
+  "summary": "2-3 sentence summary of the whole document"
+}
+
+DO NOT include any text before or after the JSON.
+
+${summaries.map((summary, index) => `Part ${index + 1}: ${summary}`).join('\n')}`;
+
+    const parsed = await this.generateStructured<{ summary: string }>(provider, prompt, SUMMARY_SCHEMA, options);
+    if (!parsed.summary) {
+      throw new Error('Combined summary missing from response');
+    }
+    return parsed.summary;
+  }
+
+  private async callProvider(
+    provider: AnalysisProvider,
+    text: string,
+    language: string,
+    options: AnalysisOptions,
+    part: ChunkContext,
+    documentType: DocumentType,
+    onText?: StreamListener
+  ): Promise<AnalysisResponse> {
+    const prompt = this.buildPrompt(text, language, part, documentType);
+
+    try {
+      return await this.generateStructured<AnalysisResponse>(
+        provider,
+        prompt,
+        analysisSchema(documentType === 'privacy'),
+        options,
+        onText
+      );
     } catch (error) {
-      console.error('Error in callGeminiAPI:', error);
+      console.error(`Error calling ${provider.id} provider:`, error);
       throw error;
     }
   }
 
-  private buildPrompt(termsText: string, language: string): string {
-    const languageInstructions = {
-      'en': 'Provide the response in English.',
-      'hi': 'Provide the response in Hindi (हिन्दी).',
-      'ta': 'Provide the response in Tamil (தமிழ்).'
-    };
+  private getLanguageInstruction(language: string): string {
+    return `Provide the response in ${promptLanguageName(language)}.`;
+  }
+
+  private buildPrompt(termsText: string, language: string, part: ChunkContext, documentType: DocumentType): string {
+    const partInstruction = part.total > 1
+      ? `\nThis is part ${part.index + 1} of ${part.total} of a longer document${part.heading ? `, starting at "${part.heading}"` : ''}. Analyze only this part.`
+      : '';
+
+    // Privacy policies additionally report their data practices
+    const practicesSchema = documentType === 'privacy' ? `,
+  "practices": {
+    "dataCollected": ["Type of personal data collected"],
+    "purposes": ["What the data is used for"],
+    "sharing": [{ "recipient": "Who the data is shared with or sold to", "purpose": "Why" }],
+    "retention": ["How long data is kept"],
+    "userRights": [{ "right": "${USER_RIGHTS.join('|')}", "description": "What the user can do and how" }],
+    "crossBorderTransfers": ["Countries or regions data is transferred to, and safeguards"],
+    "childrenData": ["How data from children is handled, including the minimum age"]
+  }` : '';
+    const practicesInstruction = documentType === 'privacy'
+      ? '\nLeave a "practices" list empty when the policy does not mention that practice. Do not guess.'
+      : '';
 
     return `
-You are a legal document analyzer. I need you to analyze some Terms and Conditions and provide a response in valid JSON format.
-${languageInstructions[language as keyof typeof languageInstructions] || languageInstructions.en}
+You are a legal document analyzer. I need you to analyze a ${DOCUMENT_LABELS[documentType]} and provide a response in valid JSON format.
+${this.getLanguageInstruction(language)}${partInstruction}
 
 YOUR RESPONSE MUST BE VALID JSON WITH THIS EXACT STRUCTURE:
 {
   "summary": "2-3 sentence summary in simple language",
-  "riskLevel": "low|medium|high",
   "keyPoints": ["Point 1", "Point 2", "Point 3"],
-  "redFlags": ["Red flag 1", "Red flag 2"]
+  "redFlags": ["Red flag 1", "Red flag 2"],
+  "findings": [
+    {
+      "category": "${FINDING_CATEGORIES.join('|')}",
+      "severity": "low|medium|high",
+      "title": "Short name of the clause",
+      "explanation": "One sentence on what it means for the user",
+      "quote": "Exact sentence copied from the terms"
+    }
+  ]${practicesSchema}
 }
 
+Each finding's "quote" MUST be copied character for character from the terms below, in the original language of the terms. Do not translate, paraphrase or shorten it.
+Findings without an exact quote will be discarded.${practicesInstruction}
+
 DO NOT include any text before or after the JSON.
 DO NOT include markdown formatting.
 DO NOT include \`\`\` or any other decorators.
 ENSURE the response is parseable JSON.
 
-Here are the terms to analyze:
-${termsText.substring(0, 25000)}`;
+${TERMS_TEXT_MARKER}
+${termsText}`;
   }
 
-  private parseAIResponse(response: string): Omit<AnalysisResult, 'timestamp'> {
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        summary: parsed.summary || '',
-        riskLevel: parsed.riskLevel || 'medium',
-        keyPoints: parsed.keyPoints || [],
-        redFlags: parsed.redFlags || []
-      };
-    } catch (error) {
-      console.error('Failed to parse AI response:', error);
-      throw new Error('Failed to parse analysis results.');
+  // The response already matches the schema; this only normalizes it
+  private parseAIResponse(response: AnalysisResponse, documentType: DocumentType): PartialAnalysis {
+    const result: PartialAnalysis = {
+      summary: response.summary,
+      keyPoints: response.keyPoints,
+      redFlags: response.redFlags,
+      findings: this.parseFindings(response.findings)
+    };
+    if (documentType === 'privacy') {
+      result.privacy = this.parsePrivacyPractices(response.practices);
     }
+    return result;
+  }
+
+  // Missing or malformed practices become empty lists ("not mentioned")
+  private parsePrivacyPractices(value: unknown): PrivacyPractices {
+    const raw = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    const strings = (items: unknown): string[] => Array.isArray(items)
+      ? items.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+      : [];
+    const objects = (items: unknown): Record<string, unknown>[] => Array.isArray(items)
+      ? items.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+      : [];
+
+    const sharing: ThirdPartySharing[] = objects(raw.sharing)
+      .filter(item => typeof item.recipient === 'string' && item.recipient.trim() !== '')
+      .map(item => ({
+        recipient: item.recipient as string,
+        purpose: typeof item.purpose === 'string' ? item.purpose : ''
+      }));
+    const userRights: UserRight[] = objects(raw.userRights)
+      .filter(item => USER_RIGHTS.includes(item.right as UserRightType))
+      .map(item => ({
+        right: item.right as UserRightType,
+        description: typeof item.description === 'string' ? item.description : ''
+      }));
+
+    return {
+      dataCollected: strings(raw.dataCollected),
+      purposes: strings(raw.purposes),
+      sharing,
+      retention: strings(raw.retention),
+      userRights,
+      crossBorderTransfers: strings(raw.crossBorderTransfers),
+      childrenData: strings(raw.childrenData)
+    };
+  }
+
+  private parseFindings(items: unknown[]): Finding[] {
+    const severities: Severity[] = ['low', 'medium', 'high'];
+
+    return items.flatMap(item => {
+      const raw = item as Record<string, unknown>;
+      if (!raw || typeof raw.quote !== 'string' || !raw.quote.trim()) return [];
+
+      const category = FINDING_CATEGORIES.includes(raw.category as FindingCategory)
+        ? raw.category as FindingCategory
+        : 'other';
+      const severity = severities.includes(raw.severity as Severity) ? raw.severity as Severity : 'medium';
+
+      return [{
+        category,
+        severity,
+        title: typeof raw.title === 'string' ? raw.title : '',
+        explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+        quote: raw.quote
+      }];
+    });
   }
 }
 
 // Initialize AIProcessor instance
 const aiProcessor = new AIProcessor();
+const termsMonitor = new TermsMonitor();
 
-// Set up message listener
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  console.log('Received message in background script:', request);
+// The entry's own risk level is what lists show and filter on, so it follows the result
+const rescoreEntry = (entry: HistoryEntry, weights: CategoryWeights): HistoryEntry => {
+  const result = rescoreResult(entry.result, weights);
+  return { ...entry, riskLevel: result.riskLevel, result };
+};
 
-  if (request.action === 'analyzeTerms') {
-    (async () => {
-      try {
-        const result = await aiProcessor.processTerms(
-          request.content,
-          request.language,
-          request.url
-        );
-        sendResponse({ success: true, data: result });
-      } catch (error) {
-        console.error('Error processing terms:', error);
-        sendResponse({
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error occurred'
-        });
+// Finds the analysis for one side of a comparison: history, then cache, then a fresh fetch and analysis
+const resolveComparisonSource = async (source: ComparisonSource, language: string): Promise<ComparisonInput> => {
+  if (source.historyId !== undefined) {
+    const entry = await storageService.getHistoryEntry(source.historyId);
+    if (!entry) throw new Error('The selected analysis no longer exists.');
+    return { url: entry.url, title: entry.title, result: entry.result };
+  }
+
+  if (!source.url) {
+    throw new Error('Choose an analysis or enter a URL for both services.');
+  }
+  const url = source.url;
+
+  const cached = await findCachedAnalysis({ url, language });
+  if (cached) {
+    // The cache has no title; the newest history entry for the page does
+    const history = await storageService.getHistory({ search: getDomain(url) });
+    return { url, title: history.find(entry => entry.url === url)?.title ?? '', result: cached };
+  }
+
+  if (!(await chrome.permissions.contains({ origins: [`${new URL(url).origin}/*`] }))) {
+    throw new Error('Permission to access this site is required to analyze it.');
+  }
+  const detection = extractLinkedDocument(await fetchPage(url), url);
+  if (!detection.found || !detection.content) {
+    throw new Error(`No terms found at ${url}`);
+  }
+  const title = detection.title ?? '';
+  const result = await aiProcessor.processTerms(detection.content, language, url, title, detection.documentType);
+  return { url, title, result };
+};
+
+// Set up message handlers
+handleMessages({
+  analyzeTerms: message => aiProcessor.processTerms(
+    message.content,
+    message.language,
+    message.url,
+    message.title,
+    message.documentType
+  ),
+
+  // Scored with the user's weights, like the automatic fallbacks, so the same text gets the same score
+  analyzeOffline: async message => {
+    const settings = await settingsService.getSettings();
+    return aiProcessor.analyzeOffline(message.content, 'requested', message.documentType, settings.categoryWeights);
+  },
+
+  getCachedAnalysis: message => findCachedAnalysis({
+    url: message.url,
+    content: message.content,
+    language: message.language
+  }),
+
+  clearCache: async message => {
+    await storageService.clearCache(message.url);
+    return null;
+  },
+
+  // Stored scores reflect the weights at analysis time; lists and details show the current ones
+  getHistory: async message => {
+    const settings = await settingsService.getSettings();
+    return storageService.getHistorySummaries(message, settings.categoryWeights);
+  },
+
+  getHistoryEntry: async message => {
+    const [entry, settings] = await Promise.all([storageService.getHistoryEntry(message.id), settingsService.getSettings()]);
+    return entry && rescoreEntry(entry, settings.categoryWeights);
+  },
+
+  deleteHistoryEntry: async message => {
+    await storageService.deleteHistoryEntry(message.id);
+    return null;
+  },
+
+  watchPage: async message => {
+    const origins = [`${new URL(message.url).origin}/*`];
+    if (!(await chrome.permissions.contains({ origins }))) {
+      throw new Error('Permission to access this site is required to watch it.');
+    }
+    return termsMonitor.watch(message.url, message.title);
+  },
+
+  unwatchPage: async message => {
+    await termsMonitor.unwatch(message.url);
+    return null;
+  },
+
+  getWatches: () => storageService.getWatches(),
+
+  checkWatches: () => termsMonitor.checkAll(),
+
+  compareAnalyses: async message => {
+    // Sequential so two fresh analyses don't compete for the same rate limit
+    const left = await resolveComparisonSource(message.left, message.language);
+    const right = await resolveComparisonSource(message.right, message.language);
+    return aiProcessor.compareServices(left, right, message.language);
+  },
+
+  getChat: async message => (await storageService.getChat(message.url))?.messages ?? [],
+
+  askQuestion: async message => {
+    const thread = await storageService.getChat(message.url) ?? { url: message.url, messages: [], updatedAt: 0 };
+    const question: ChatMessage = { role: 'user', content: message.question, timestamp: Date.now() };
+    const answer = await aiProcessor.answerQuestion(message.content, message.question, thread.messages, message.language);
+
+    // Saved only once answered, so a failed question can simply be asked again
+    await storageService.saveChat({
+      url: message.url,
+      messages: [...thread.messages, question, answer],
+      updatedAt: answer.timestamp
+    });
+    return answer;
+  },
+
+  translateTerms: message => aiProcessor.translateTerms(message.content, message.language),
+
+  clearChat: async message => {
+    await storageService.deleteChat(message.url);
+    return null;
+  },
+
+  exportBackup: () => backupService.createBackup(),
+
+  importBackup: async message => {
+    const summary = await backupService.importBackup(backupService.parseBackup(message.bundle), {
+      settings: message.settings === 'use-backup' ? 'use-backup' : 'keep-local'
+    });
+    pushSyncedHistory().catch(error => console.error('History sync failed:', error));
+    return summary;
+  },
+
+  fetchLinkedDocument: async message => {
+    const origins = [`${new URL(message.url).origin}/*`];
+    if (!(await chrome.permissions.contains({ origins }))) {
+      throw new Error('Permission to access this site is required to read the linked document.');
+    }
+    return extractLinkedDocument(await fetchPage(message.url), message.url);
+  },
+
+  updateBadge: async (message, sender) => {
+    const tabId = message.tabId ?? sender.tab?.id;
+    if (tabId === undefined) {
+      throw new Error('No tab to update');
+    }
+    const report = {
+      found: message.found,
+      location: message.location,
+      agreementPrompt: message.agreementPrompt
+    };
+    await updateBadge(tabId, message.url, report);
+
+    // Detection changes on the page let an open side panel follow along;
+    // the popup's own badge updates don't need to be echoed back
+    if (message.tabId === undefined) {
+      sendMessage({ action: 'termsDetected', tabId, url: message.url, ...report })
+        .catch(() => undefined); // No extension page is listening
+    }
+
+    const settings = await settingsService.getSettings();
+    return { showConsentBanner: report.agreementPrompt && settings.showConsentBanner };
+  },
+
+  dismissConsentBanner: async () => {
+    await settingsService.updateSettings({ showConsentBanner: false });
+    return null;
+  }
+});
+
+// Streaming analysis: progress and partial results go back over the port until it finishes
+chrome.runtime.onConnect.addListener(port => {
+  if (port.name !== ANALYSIS_PORT_NAME) return;
+
+  const controller = new AbortController();
+  let connected = true;
+  let lastPreview = '';
+
+  // Closing the popup doesn't cancel; the analysis still finishes and is cached
+  port.onDisconnect.addListener(() => {
+    connected = false;
+  });
+
+  const post = (event: AnalysisStreamEvent) => {
+    if (connected) port.postMessage(event);
+  };
+
+  port.onMessage.addListener((request: AnalysisStreamRequest) => {
+    if (request?.type === 'cancel') {
+      controller.abort();
+      return;
+    }
+    if (request?.type !== 'start' || typeof request.content !== 'string' || typeof request.language !== 'string') {
+      post({ type: 'error', error: 'Invalid analysis request' });
+      return;
+    }
+
+    aiProcessor.processTerms(request.content, request.language, request.url, request.title, request.documentType, {
+      signal: controller.signal,
+      onProgress: (chunk, totalChunks) => post({ type: 'progress', chunk, totalChunks }),
+      onPreview: preview => {
+        // Most streamed pieces don't complete a field, so only real changes are sent
+        const key = `${preview.summary ?? ''}|${preview.findings.length}`;
+        if (key === lastPreview) return;
+        lastPreview = key;
+        post({ type: 'partial', preview });
       }
-    })();
-    return true; // Keep the message channel open for async response
+    })
+      .then(result => post({ type: 'done', result }))
+      .catch(error => post(controller.signal.aborted
+        ? { type: 'cancelled' }
+        : {
+          type: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          code: error instanceof AnalysisError ? error.code : undefined
+        }));
+  });
+});
+
+// Background monitoring of watched terms pages
+chrome.alarms.onAlarm.addListener(alarm => {
+  if (alarm.name === MONITOR_ALARM) {
+    termsMonitor.checkAll().catch(error => console.error('Terms monitor run failed:', error));
+  }
+  if (alarm.name === CACHE_CLEANUP_ALARM) {
+    pruneAnalysisCache().catch(error => console.error('Cache cleanup failed:', error));
+  }
+});
+
+chrome.notifications.onClicked.addListener(notificationId => {
+  if (notificationId.startsWith(`${MONITOR_ALARM}:`)) {
+    chrome.tabs.create({ url: notificationId.substring(MONITOR_ALARM.length + 1) });
+    chrome.notifications.clear(notificationId);
+  }
+});
+
+const scheduleFromSettings = async () => {
+  const settings = await settingsService.getSettings();
+  await scheduleMonitor(settings.monitorIntervalHours);
+};
+
+// Recent summaries offered to the user's other devices; fewer are synced when they're long
+const SYNCED_HISTORY_LIMIT = 100;
+
+const pushSyncedHistory = async () => {
+  const settings = await settingsService.getSettings();
+  if (!settings.syncHistory) return;
+  await historySync.push(await storageService.getHistory({ limit: SYNCED_HISTORY_LIMIT }));
+};
+
+// Entries already in the local history (including this device's own) are skipped
+const pullSyncedHistory = async () => {
+  const settings = await settingsService.getSettings();
+  if (!settings.syncHistory) return;
+  await storageService.importHistory(await historySync.pull());
+};
+
+chrome.runtime.onStartup.addListener(() => {
+  scheduleFromSettings();
+  scheduleCacheCleanup();
+  pullSyncedHistory().catch(error => console.error('History sync failed:', error));
+});
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'sync') return;
+
+  if (changes.settings) {
+    scheduleFromSettings();
+    // Turning sync on shares this device's history and picks up the others'
+    if (changes.settings.newValue?.syncHistory && !changes.settings.oldValue?.syncHistory) {
+      pullSyncedHistory()
+        .then(pushSyncedHistory)
+        .catch(error => console.error('History sync failed:', error));
+    }
+  }
+
+  if (Object.keys(changes).some(key => key.startsWith(SYNC_KEY_PREFIX))) {
+    pullSyncedHistory().catch(error => console.error('History sync failed:', error));
   }
 });
 
@@ -240,8 +1103,9 @@ chrome.runtime.onInstalled.addListener((details: chrome.runtime.InstalledDetails
   if (details.reason === 'install') {
     chrome.storage.sync.set({
       hasConsent: false,
-      language: 'en',
-      geminiApiKey: null
+      language: 'en'
     });
   }
+  scheduleFromSettings();
+  scheduleCacheCleanup();
 });
\ No newline at end of file
@@ -0,0 +1,39 @@
+/// <reference types="chrome"/>
+import i18next from 'i18next';
+import type { TFunction } from 'i18next';
+import { DEFAULT_LANGUAGE, LOCALES, isLanguageCode } from '../i18n/locales';
+import type { LanguageCode } from '../i18n/locales';
+
+const NAMESPACES = ['common', 'popup'] as const;
+
+const localeFiles = import.meta.glob<Record<string, unknown>>('../locales/*/*.json', { eager: true, import: 'default' });
+
+const resources = Object.fromEntries(LOCALES.map(({ code }) => [
+  code,
+  Object.fromEntries(NAMESPACES.map(namespace => [namespace, localeFiles[`../locales/${code}/${namespace}.json`] ?? {}]))
+]));
+
+// The service worker has no localStorage or navigator language detection, so it
+// gets its own instance and follows the language chosen in the extension
+const backgroundI18n = i18next.createInstance();
+const ready = backgroundI18n.init({
+  resources,
+  supportedLngs: LOCALES.map(locale => locale.code),
+  fallbackLng: DEFAULT_LANGUAGE,
+  defaultNS: 'common',
+  ns: [...NAMESPACES],
+  interpolation: {
+    escapeValue: false
+  }
+});
+
+export async function getLanguage(): Promise<LanguageCode> {
+  const { language } = await chrome.storage.sync.get('language');
+  return isLanguageCode(language) ? language : DEFAULT_LANGUAGE;
+}
+
+// Strings for badges and notifications, in the given language or the extension's
+export async function getBackgroundT(language?: string): Promise<TFunction> {
+  await ready;
+  return backgroundI18n.getFixedT(language ?? await getLanguage());
+}
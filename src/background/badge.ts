@@ -0,0 +1,50 @@
+/// <reference types="chrome"/>
+import { findCachedAnalysis } from './analysisCache';
+import { getBackgroundT, getLanguage } from './backgroundI18n';
+import type { RiskLevel } from '../types/analysis';
+import type { DetectionReport } from '../types/detection';
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+  low: '#16a34a',
+  medium: '#d97706',
+  high: '#dc2626'
+};
+
+// Shown before the terms on the page have been analyzed
+const DETECTED_COLOR = '#2563eb';
+
+/**
+ * Per-tab action badge: the number of findings in the risk colour when the
+ * page has a cached analysis, a neutral marker when terms were only detected.
+ */
+export async function updateBadge(tabId: number, url: string, report: DetectionReport): Promise<void> {
+  if (!report.found && !report.agreementPrompt) {
+    await chrome.action.setBadgeText({ tabId, text: '' });
+    await chrome.action.setTitle({ tabId, title: chrome.runtime.getManifest().action?.default_title ?? '' });
+    return;
+  }
+
+  const language = await getLanguage();
+  const t = await getBackgroundT(language);
+
+  // Visiting a page isn't using its analysis, so the lookup leaves the LRU order alone
+  const result = report.found ? await findCachedAnalysis({ url, language, peek: true }) : null;
+  if (result) {
+    // Entries cached before findings existed only carry red flags
+    const count = result.findings?.length || result.redFlags.length;
+    await chrome.action.setBadgeBackgroundColor({ tabId, color: RISK_COLORS[result.riskLevel] });
+    await chrome.action.setBadgeText({ tabId, text: String(count) });
+    await chrome.action.setTitle({
+      tabId,
+      title: t('common:badge.analyzed', { risk: t(`popup:analysis.riskLevels.${result.riskLevel}`), count })
+    });
+    return;
+  }
+
+  await chrome.action.setBadgeBackgroundColor({ tabId, color: DETECTED_COLOR });
+  await chrome.action.setBadgeText({ tabId, text: report.found ? 'T&C' : '?' });
+  await chrome.action.setTitle({
+    tabId,
+    title: report.found ? t('common:badge.detected') : t('common:badge.agreementPrompt')
+  });
+}
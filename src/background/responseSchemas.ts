@@ -0,0 +1,103 @@
+import { FINDING_CATEGORIES } from '../types/analysis';
+import { USER_RIGHTS } from '../types/privacy';
+import type { SchemaNode } from '../utils/structuredOutput';
+
+// Shapes the model is asked for in each prompt, checked before any field is used
+
+const SEVERITY: SchemaNode = { type: 'string', enum: ['low', 'medium', 'high'] };
+const STRINGS: SchemaNode = { type: 'array', items: { type: 'string' } };
+// Privacy practice lists the model may leave out when the policy is silent
+const OPTIONAL_STRINGS: SchemaNode = { ...STRINGS, optional: true };
+
+export const FINDING_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    category: { type: 'string', enum: FINDING_CATEGORIES },
+    severity: SEVERITY,
+    title: { type: 'string' },
+    explanation: { type: 'string' },
+    quote: { type: 'string' }
+  }
+};
+
+const PRACTICES_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    dataCollected: OPTIONAL_STRINGS,
+    purposes: OPTIONAL_STRINGS,
+    sharing: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        fields: { recipient: { type: 'string' }, purpose: { type: 'string', optional: true } }
+      }
+    },
+    retention: OPTIONAL_STRINGS,
+    userRights: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        fields: { right: { type: 'string', enum: USER_RIGHTS }, description: { type: 'string', optional: true } }
+      }
+    },
+    crossBorderTransfers: OPTIONAL_STRINGS,
+    childrenData: OPTIONAL_STRINGS
+  }
+};
+
+export interface AnalysisResponse {
+  summary: string;
+  keyPoints: string[];
+  redFlags: string[];
+  findings: unknown[];
+  practices?: unknown;
+}
+
+export const analysisSchema = (withPractices: boolean): SchemaNode => ({
+  type: 'object',
+  fields: {
+    summary: { type: 'string' },
+    keyPoints: STRINGS,
+    redFlags: STRINGS,
+    findings: { type: 'array', items: FINDING_SCHEMA },
+    ...(withPractices ? { practices: { ...PRACTICES_SCHEMA, optional: true } } : {})
+  }
+});
+
+export const SUMMARY_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: { summary: { type: 'string' } }
+};
+
+export const CHANGES_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    summary: { type: 'string' },
+    significance: SEVERITY,
+    changes: {
+      type: 'array',
+      items: { type: 'object', fields: { change: { type: 'string' }, impact: { type: 'string' } } }
+    }
+  }
+};
+
+export const NARRATIVE_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: { narrative: { type: 'string' } }
+};
+
+export const TRANSLATION_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: { translation: { type: 'string' } }
+};
+
+export const ANSWER_SCHEMA: SchemaNode = {
+  type: 'object',
+  fields: {
+    answer: { type: 'string' },
+    addressed: { type: 'boolean' },
+    quotes: STRINGS
+  }
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import FindingsList from './FindingsList';
+import ChangeLog from './ChangeLog';
+import PrivacyPracticesView from './PrivacyPracticesView';
+import RuleCheckPanel from './RuleCheckPanel';
+import RiskBreakdown from './RiskBreakdown';
+import ReadAloud from './ReadAloud';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { AnalysisResult, Finding } from '../types/analysis';
+
+interface AnalysisDetailsProps {
+  result: AnalysisResult;
+  onShowInPage?: (finding: Finding) => void;
+  // Language the result was written in; defaults to the UI language
+  language?: string;
+}
+
+// Read-only rendering of an analysis, shared by the popup and the history view
+const AnalysisDetails: React.FC<AnalysisDetailsProps> = ({ result, onShowInPage, language }) => {
+  const { t } = useTranslation(['popup']);
+  const { language: uiLanguage } = useLanguage();
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold">
+          {result.documentType === 'privacy' ? t('popup:privacy.analysisTitle') : t('popup:analysis.title')}
+        </h3>
+        <span className={`px-2 py-1 rounded text-sm font-medium ${result.riskLevel === 'low' ? 'bg-green-100 text-green-800' :
+          result.riskLevel === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+            'bg-red-100 text-red-800'
+          }`}>
+          {t(`popup:analysis.riskLevels.${result.riskLevel}`)}
+          {result.riskScore && ` · ${t('popup:riskScore.value', { score: result.riskScore.score })}`}
+        </span>
+      </div>
+
+      {result.riskScore && <RiskBreakdown riskScore={result.riskScore} />}
+
+      {result.coverage && (
+        <p className={`text-xs ${result.coverage.analyzedChunks < result.coverage.totalChunks ? 'text-yellow-700' : 'text-gray-500'}`}>
+          {t('popup:analysis.coverage', {
+            percent: Math.round(100 * result.coverage.analyzedCharacters / Math.max(result.coverage.totalCharacters, 1)),
+            analyzed: result.coverage.analyzedChunks,
+            total: result.coverage.totalChunks
+          })}
+        </p>
+      )}
+
+      {result.source === 'rules' && (
+        <p className="text-xs text-yellow-800 bg-yellow-50 p-2 rounded">
+          {t(`popup:offlineAnalysis.reasons.${result.offlineReason ?? 'requested'}`)} {t('popup:offlineAnalysis.limitations')}
+        </p>
+      )}
+
+      {result.changes && <ChangeLog changes={result.changes} />}
+
+      <div className="bg-gray-50 p-4 rounded-lg">
+        <h4 className="font-semibold mb-2">{t('popup:analysis.summary')}</h4>
+        <p className="text-sm text-gray-700">
+          {/* Rule-based summaries are generated locally, so they can follow the UI language */}
+          {result.source === 'rules'
+            ? t('popup:offlineAnalysis.summary', {
+              count: result.findings.length,
+              categories: new Set(result.findings.map(finding => finding.category)).size
+            })
+            : result.summary}
+        </p>
+      </div>
+
+      <ReadAloud result={result} language={language ?? uiLanguage} />
+
+      {result.keyPoints.length > 0 && (
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <h4 className="font-semibold mb-2 text-blue-800">{t('popup:analysis.keyPoints')}</h4>
+          <ul className="space-y-1">
+            {result.keyPoints.map((point, index) => (
+              <li key={index} className="text-sm text-blue-700 flex items-start">
+                <span className="mr-2">•</span>
+                <span>{point}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.privacy && <PrivacyPracticesView practices={result.privacy} />}
+
+      <FindingsList
+        findings={result.findings ?? []}
+        onShowInPage={onShowInPage}
+      />
+
+      {result.ruleCheck && <RuleCheckPanel ruleCheck={result.ruleCheck} findings={result.findings} />}
+
+      {/* Results cached before findings existed only carry free-text red flags */}
+      {!result.findings?.length && result.redFlags.length > 0 && (
+        <div className="bg-red-50 p-4 rounded-lg">
+          <h4 className="font-semibold mb-2 text-red-800">⚠️ {t('popup:analysis.concerns')}</h4>
+          <ul className="space-y-1">
+            {result.redFlags.map((flag, index) => (
+              <li key={index} className="text-sm text-red-700 flex items-start">
+                <span className="mr-2">•</span>
+                <span>{flag}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AnalysisDetails;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { HourglassEmpty as LoadingIcon } from '@mui/icons-material';
+import FindingsList from './FindingsList';
+import type { AnalysisPreview } from '../types/stream';
+
+interface AnalysisProgressProps {
+  progress: { chunk: number; totalChunks: number } | null;
+  preview: AnalysisPreview | null;
+  onCancel: () => void;
+}
+
+// Shown while an analysis streams in: which part is running and what has come back so far
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ progress, preview, onCancel }) => {
+  const { t } = useTranslation(['popup']);
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-blue-50 rounded-lg space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-blue-700">
+            <LoadingIcon className="w-4 h-4 animate-spin" />
+            <span className="text-sm">
+              {progress && progress.totalChunks > 1
+                ? t('popup:streaming.progress', { current: progress.chunk, total: progress.totalChunks })
+                : t('popup:analysis.processing')}
+            </span>
+          </div>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm text-blue-700 border border-blue-300 rounded hover:bg-blue-100"
+          >
+            {t('popup:streaming.cancel')}
+          </button>
+        </div>
+        {progress && progress.totalChunks > 1 && (
+          <div className="h-1.5 bg-blue-100 rounded">
+            <div
+              className="h-1.5 bg-blue-600 rounded transition-all"
+              style={{ width: `${Math.round(((progress.chunk - 1) / progress.totalChunks) * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {preview?.summary && (
+        <div>
+          <h4 className="font-semibold mb-1">{t('popup:analysis.title')}</h4>
+          <p className="text-sm text-gray-700">{preview.summary}</p>
+        </div>
+      )}
+
+      {preview && preview.findings.length > 0 && (
+        <FindingsList findings={preview.findings} />
+      )}
+    </div>
+  );
+};
+
+export default AnalysisProgress;
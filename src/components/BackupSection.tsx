@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon
+} from '@mui/icons-material';
+import { sendMessage } from '../services/messaging';
+import { downloadExport } from '../utils/summaryExport';
+import type { ImportSummary, SettingsConflict } from '../types/backup';
+
+interface BackupSectionProps {
+  syncHistory: boolean;
+  onSyncChange: (enabled: boolean) => void;
+  // Settings on the page are stale once an import has replaced them
+  onSettingsImported: () => void;
+}
+
+type ImportStatus =
+  | { state: 'idle' }
+  | { state: 'done'; summary: ImportSummary }
+  | { state: 'error'; message: string };
+
+// Backup file export/import and history sync on the options page
+const BackupSection: React.FC<BackupSectionProps> = ({ syncHistory, onSyncChange, onSettingsImported }) => {
+  const { t } = useTranslation(['options']);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [settingsConflict, setSettingsConflict] = useState<SettingsConflict>('keep-local');
+  const [status, setStatus] = useState<ImportStatus>({ state: 'idle' });
+
+  const handleExport = async () => {
+    const bundle = await sendMessage({ action: 'exportBackup' });
+    downloadExport({
+      content: JSON.stringify(bundle, null, 2),
+      mimeType: 'application/json',
+      filename: `tc-analyzer-backup-${new Date(bundle.exportedAt).toISOString().slice(0, 10)}.json`
+    });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error(t('options:backup.notJson'));
+      }
+
+      const summary = await sendMessage({ action: 'importBackup', bundle, settings: settingsConflict });
+      setStatus({ state: 'done', summary });
+      if (summary.settingsApplied) onSettingsImported();
+    } catch (error) {
+      console.error('Backup import failed:', error);
+      setStatus({ state: 'error', message: error instanceof Error ? error.message : t('options:backup.importError') });
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <h2 className="font-semibold">{t('options:backup.title')}</h2>
+      <p className="text-sm text-gray-500">{t('options:backup.description')}</p>
+
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleExport}
+          className="flex items-center space-x-1 py-1 px-3 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+        >
+          <ExportIcon className="w-4 h-4" />
+          <span>{t('options:backup.export')}</span>
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center space-x-1 py-1 px-3 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+        >
+          <ImportIcon className="w-4 h-4" />
+          <span>{t('options:backup.import')}</span>
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <input
+          type="checkbox"
+          checked={settingsConflict === 'use-backup'}
+          onChange={e => setSettingsConflict(e.target.checked ? 'use-backup' : 'keep-local')}
+        />
+        <span>{t('options:backup.useBackupSettings')}</span>
+      </label>
+
+      {status.state === 'done' && (
+        <p className="text-sm text-green-700">
+          {t('options:backup.imported', {
+            added: status.summary.historyAdded,
+            skipped: status.summary.historySkipped,
+            watches: status.summary.watchesAdded + status.summary.watchesMerged
+          })}
+          {status.summary.settingsApplied && ` ${t('options:backup.settingsApplied')}`}
+        </p>
+      )}
+      {status.state === 'error' && <p className="text-sm text-red-700">{status.message}</p>}
+
+      <label className="flex items-start space-x-2 text-sm">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={syncHistory}
+          onChange={e => onSyncChange(e.target.checked)}
+        />
+        <span>
+          <span className="font-medium">{t('options:backup.sync')}</span>
+          <span className="block text-gray-500">{t('options:backup.syncHint')}</span>
+        </span>
+      </label>
+    </section>
+  );
+};
+
+export default BackupSection;
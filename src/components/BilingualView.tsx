@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  HourglassEmpty as LoadingIcon,
+  Translate as TranslateIcon
+} from '@mui/icons-material';
+import { sendMessage } from '../services/messaging';
+import { useLanguage } from '../contexts/LanguageContext';
+import { describeError } from '../utils/errorMessages';
+import { locateQuote } from '../utils/quoteLocator';
+import { localizeFinding } from '../utils/ruleAnalyzer';
+import type { Finding, Severity, TextSpan } from '../types/analysis';
+import type { TermsTranslation, TranslatedSection } from '../types/translation';
+
+interface BilingualViewProps {
+  content: string;
+  language: string;
+  findings: Finding[];
+}
+
+interface LinkedFinding {
+  finding: Finding;
+  section: number;
+  span: TextSpan;
+}
+
+const severityClasses: Record<Severity, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800'
+};
+
+const severityBorders: Record<Severity, string> = {
+  low: 'border-green-400',
+  medium: 'border-yellow-400',
+  high: 'border-red-500'
+};
+
+const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high'];
+
+// Each finding belongs to the section its quote was found in; quotes found nowhere stay unlinked
+const linkFindings = (sections: TranslatedSection[], findings: Finding[]): LinkedFinding[] =>
+  findings.flatMap(finding => {
+    for (const section of sections) {
+      const span = locateQuote(section.original, finding.quote);
+      if (span) return [{ finding, section: section.index, span }];
+    }
+    return [];
+  });
+
+// Original text with the quoted passages marked, overlapping quotes merged into the first
+const renderMarked = (text: string, linked: LinkedFinding[]) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  [...linked].sort((a, b) => a.span.start - b.span.start).forEach((item, index) => {
+    if (item.span.start < position) return;
+    parts.push(text.substring(position, item.span.start));
+    parts.push(
+      <mark key={index} className={`rounded px-0.5 ${severityClasses[item.finding.severity]}`} title={item.finding.title}>
+        {text.substring(item.span.start, item.span.end)}
+      </mark>
+    );
+    position = item.span.end;
+  });
+  parts.push(text.substring(position));
+  return parts;
+};
+
+// The detected terms next to a translation into the selected language, section by section
+const BilingualView: React.FC<BilingualViewProps> = ({ content, language, findings }) => {
+  const { t } = useTranslation(['popup']);
+  const { availableLanguages } = useLanguage();
+
+  const [translation, setTranslation] = useState<TermsTranslation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeSection, setActiveSection] = useState<number | null>(null);
+  const sectionRefs = useRef(new Map<number, HTMLDivElement>());
+
+  // A translation is only valid for the text and language it was made for
+  useEffect(() => {
+    setTranslation(null);
+    setError(null);
+    setActiveSection(null);
+  }, [content, language]);
+
+  const languageName = availableLanguages.find(lang => lang.code === language)?.nativeName ?? language;
+
+  const handleTranslate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTranslation(await sendMessage({ action: 'translateTerms', content, language }));
+    } catch (err) {
+      console.error('Translation error:', err);
+      setError(describeError(err, t('popup:translation.error')));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showSection = (section: number) => {
+    setActiveSection(section);
+    sectionRefs.current.get(section)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  const linked = translation ? linkFindings(translation.sections, findings.map(finding => localizeFinding(finding, t))) : [];
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold flex items-center space-x-1">
+          <TranslateIcon className="w-4 h-4" />
+          <span>{t('popup:translation.title')}</span>
+        </h4>
+      </div>
+
+      {!translation && (
+        <>
+          <p className="text-xs text-gray-500">{t('popup:translation.hint')}</p>
+          <button
+            onClick={handleTranslate}
+            disabled={loading}
+            className="flex items-center space-x-1 py-1 px-3 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {loading ? <LoadingIcon className="w-4 h-4 animate-spin" /> : <TranslateIcon className="w-4 h-4" />}
+            <span>{loading ? t('popup:translation.translating') : t('popup:translation.translate', { language: languageName })}</span>
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {translation && (
+        <>
+          {linked.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {linked.map((item, index) => (
+                <button
+                  key={index}
+                  onClick={() => showSection(item.section)}
+                  className={`px-2 py-0.5 rounded text-xs font-medium ${severityClasses[item.finding.severity]}`}
+                  title={t('popup:translation.showSection', { section: item.section + 1 })}
+                >
+                  {item.finding.title}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 text-xs font-semibold text-gray-600">
+            <span>{t('popup:translation.original')}</span>
+            <span>{languageName}</span>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {translation.sections.map(section => {
+              const sectionFindings = linked.filter(item => item.section === section.index);
+              const worst = sectionFindings
+                .map(item => item.finding.severity)
+                .sort((a, b) => SEVERITY_ORDER.indexOf(b) - SEVERITY_ORDER.indexOf(a))[0];
+
+              return (
+                <div
+                  key={section.index}
+                  ref={element => {
+                    if (element) sectionRefs.current.set(section.index, element);
+                    else sectionRefs.current.delete(section.index);
+                  }}
+                  title={section.heading}
+                  className={`grid grid-cols-2 gap-2 p-2 rounded border-l-4 ${worst ? severityBorders[worst] : 'border-gray-200'} ${activeSection === section.index ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="text-xs text-gray-700 whitespace-pre-wrap">
+                    {renderMarked(section.original, sectionFindings)}
+                  </div>
+                  <div className="text-xs text-gray-800 whitespace-pre-wrap space-y-1">
+                    {sectionFindings.length > 0 && (
+                      <div className="flex flex-wrap gap-1 whitespace-normal">
+                        {sectionFindings.map((item, index) => (
+                          <span key={index} className={`px-1.5 py-0.5 rounded font-medium ${severityClasses[item.finding.severity]}`}>
+                            {item.finding.title}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <p>{section.translated}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {translation.truncated && (
+            <p className="text-xs text-yellow-700">{t('popup:translation.truncated', { count: translation.sections.length })}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BilingualView;
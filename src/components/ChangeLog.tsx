@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Update as UpdateIcon } from '@mui/icons-material';
+import type { Severity } from '../types/analysis';
+import type { TermsChangeReport } from '../types/changes';
+
+interface ChangeLogProps {
+  changes: TermsChangeReport;
+}
+
+const significanceClasses: Record<Severity, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800'
+};
+
+const ChangeLog: React.FC<ChangeLogProps> = ({ changes }) => {
+  const { t } = useTranslation(['popup']);
+  const [showDiff, setShowDiff] = useState(false);
+  const { assessment, stats } = changes;
+
+  return (
+    <div className="bg-purple-50 p-4 rounded-lg space-y-2">
+      <div className="flex items-start justify-between space-x-2">
+        <h4 className="font-semibold text-purple-900 flex items-center space-x-1">
+          <UpdateIcon className="w-4 h-4" />
+          <span>{t('popup:changes.title')}</span>
+        </h4>
+        {assessment && (
+          <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${significanceClasses[assessment.significance]}`}>
+            {t(`popup:changes.significance.${assessment.significance}`)}
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-purple-800">
+        {t('popup:changes.since', { date: new Date(changes.previousTimestamp).toLocaleDateString() })}
+        {' · '}
+        {t('popup:changes.stats', stats)}
+      </p>
+
+      {assessment?.summary && <p className="text-sm text-purple-900">{assessment.summary}</p>}
+
+      {assessment && assessment.items.length > 0 && (
+        <ul className="space-y-1">
+          {assessment.items.map((item, index) => (
+            <li key={index} className="text-sm text-purple-900">
+              <span className="font-medium">{item.change}</span>
+              {item.impact && <span className="block text-xs text-purple-700">{item.impact}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={() => setShowDiff(!showDiff)}
+        className="text-xs text-purple-700 hover:underline"
+      >
+        {showDiff ? t('popup:changes.hideDiff') : t('popup:changes.showDiff')}
+      </button>
+
+      {showDiff && (
+        <ul className="space-y-2">
+          {changes.diff.map((entry, index) => (
+            <li key={index} className="text-xs bg-white rounded p-2 space-y-1">
+              <p className="font-semibold text-gray-700">
+                {t(`popup:changes.types.${entry.type}`)}
+                {entry.section && <span className="font-normal text-gray-500"> · {entry.section}</span>}
+              </p>
+              {entry.before && <p className="text-red-700 line-through">{entry.before}</p>}
+              {entry.after && <p className="text-green-700">{entry.after}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ChangeLog;
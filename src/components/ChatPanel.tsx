@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Chat as ChatIcon,
+  DeleteOutline as ClearIcon,
+  HourglassEmpty as LoadingIcon,
+  Send as SendIcon
+} from '@mui/icons-material';
+import { sendMessage } from '../services/messaging';
+import { describeError } from '../utils/errorMessages';
+import type { ChatMessage } from '../types/chat';
+
+interface ChatPanelProps {
+  url: string;
+  content: string;
+  language: string;
+}
+
+// Follow-up questions about the detected terms, answered from the text itself
+const ChatPanel: React.FC<ChatPanelProps> = ({ url, content, language }) => {
+  const { t } = useTranslation(['popup']);
+
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    sendMessage({ action: 'getChat', url })
+      .then(setMessages)
+      .catch(err => console.error('Failed to load chat:', err));
+  }, [url]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages, pending]);
+
+  const handleAsk = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = question.trim();
+    if (!text || pending) return;
+
+    setPending(text);
+    setQuestion('');
+    setError(null);
+
+    try {
+      const answer = await sendMessage({ action: 'askQuestion', url, content, question: text, language });
+      setMessages(prev => [...prev, { role: 'user', content: text, timestamp: answer.timestamp }, answer]);
+    } catch (err) {
+      console.error('Chat error:', err);
+      setError(describeError(err, t('popup:chat.error')));
+      setQuestion(text);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await sendMessage({ action: 'clearChat', url });
+      setMessages([]);
+    } catch (err) {
+      console.error('Failed to clear chat:', err);
+      setError(describeError(err, t('popup:chat.clearError')));
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold flex items-center space-x-1">
+          <ChatIcon className="w-4 h-4" />
+          <span>{t('popup:chat.title')}</span>
+        </h4>
+        {messages.length > 0 && (
+          <button onClick={handleClear} className="text-gray-500 hover:text-red-600" title={t('popup:chat.clear')}>
+            <ClearIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 && !pending && (
+        <p className="text-xs text-gray-500">{t('popup:chat.hint')}</p>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={`text-sm p-2 rounded-lg ${message.role === 'user' ? 'bg-blue-50 text-blue-900 ml-8' : 'bg-gray-50 text-gray-800 mr-8'}`}
+          >
+            {message.notAddressed && (
+              <span className="block text-xs font-medium text-yellow-700">{t('popup:chat.notAddressed')}</span>
+            )}
+            <p>{message.content}</p>
+            {message.quotes?.map((quote, quoteIndex) => (
+              <blockquote key={quoteIndex} className="mt-1 text-xs text-gray-600 italic border-l-2 border-gray-300 pl-2">
+                {quote}
+              </blockquote>
+            ))}
+          </div>
+        ))}
+        {pending && (
+          <>
+            <div className="text-sm p-2 rounded-lg bg-blue-50 text-blue-900 ml-8">{pending}</div>
+            <div className="flex items-center space-x-1 text-xs text-gray-500">
+              <LoadingIcon className="w-4 h-4 animate-spin" />
+              <span>{t('popup:chat.thinking')}</span>
+            </div>
+          </>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <form onSubmit={handleAsk} className="flex space-x-2">
+        <input
+          type="text"
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder={t('popup:chat.placeholder')}
+          className="flex-1 border rounded-lg px-3 py-2 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || pending !== null}
+          className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          title={t('popup:chat.send')}
+        >
+          <SendIcon className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HourglassEmpty as LoadingIcon } from '@mui/icons-material';
+import { sendMessage } from '../services/messaging';
+import { describeError } from '../utils/errorMessages';
+import type { HistorySummary } from '../types/history';
+import type { ComparisonSide, ComparisonSource, ComparisonVerdict, TermsComparison } from '../types/comparison';
+
+interface CompareViewProps {
+  language: string;
+}
+
+// One side of the form: a stored analysis, or a URL typed in by the user
+interface SideInput {
+  historyId: string;
+  url: string;
+}
+
+const EMPTY_SIDE: SideInput = { historyId: '', url: '' };
+
+const cellClass = (better: ComparisonVerdict, side: ComparisonSide) =>
+  better === side ? 'bg-green-50 text-green-900' : better === 'tie' ? '' : 'bg-red-50 text-red-900';
+
+// Side-by-side comparison of two services' terms
+const CompareView: React.FC<CompareViewProps> = ({ language }) => {
+  const { t } = useTranslation(['popup']);
+
+  const [entries, setEntries] = useState<HistorySummary[]>([]);
+  const [inputs, setInputs] = useState<Record<ComparisonSide, SideInput>>({ left: EMPTY_SIDE, right: EMPTY_SIDE });
+  const [comparison, setComparison] = useState<TermsComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sendMessage({ action: 'getHistory', limit: 50 })
+      .then(setEntries)
+      .catch(err => console.error('Failed to load history:', err));
+  }, []);
+
+  const updateSide = (side: ComparisonSide, changes: Partial<SideInput>) => {
+    setInputs(prev => ({ ...prev, [side]: { ...prev[side], ...changes } }));
+  };
+
+  const toSource = (input: SideInput): ComparisonSource | null => {
+    if (input.historyId) return { historyId: Number(input.historyId) };
+    return input.url.trim() ? { url: input.url.trim() } : null;
+  };
+
+  const handleCompare = async () => {
+    const left = toSource(inputs.left);
+    const right = toSource(inputs.right);
+    if (!left || !right) {
+      setError(t('popup:compare.chooseBoth'));
+      return;
+    }
+
+    setIsComparing(true);
+    setError(null);
+
+    try {
+      // Typed URLs may need a fresh fetch, which needs access to those sites
+      const origins = [left, right].flatMap(source => source.url ? [`${new URL(source.url).origin}/*`] : []);
+      if (origins.length > 0 && !(await chrome.permissions.request({ origins }))) return;
+
+      setComparison(await sendMessage({ action: 'compareAnalyses', left, right, language }));
+    } catch (err) {
+      console.error('Comparison error:', err);
+      setError(describeError(err, t('popup:compare.error')));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const renderSideInput = (side: ComparisonSide) => (
+    <div className="flex-1 min-w-0 space-y-1">
+      <p className="text-xs font-semibold text-gray-700">{t(`popup:compare.sides.${side}`)}</p>
+      <select
+        value={inputs[side].historyId}
+        onChange={e => updateSide(side, { historyId: e.target.value })}
+        className="w-full border rounded px-2 py-1 text-xs"
+      >
+        <option value="">{t('popup:compare.pickAnalysis')}</option>
+        {entries.map(entry => (
+          <option key={entry.id} value={entry.id}>
+            {entry.title || entry.domain} · {new Date(entry.timestamp).toLocaleDateString()}
+          </option>
+        ))}
+      </select>
+      {!inputs[side].historyId && (
+        <input
+          type="url"
+          value={inputs[side].url}
+          onChange={e => updateSide(side, { url: e.target.value })}
+          placeholder={t('popup:compare.urlPlaceholder')}
+          className="w-full border rounded px-2 py-1 text-xs"
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-bold">{t('popup:compare.title')}</h3>
+
+      <div className="flex space-x-2">
+        {renderSideInput('left')}
+        {renderSideInput('right')}
+      </div>
+
+      <button
+        onClick={handleCompare}
+        disabled={isComparing}
+        className="w-full py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm flex items-center justify-center space-x-2"
+      >
+        {isComparing && <LoadingIcon className="w-4 h-4 animate-spin" />}
+        <span>{isComparing ? t('popup:compare.comparing') : t('popup:compare.button')}</span>
+      </button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {comparison && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {(['left', 'right'] as const).map(side => (
+              <div key={side} className={`p-2 rounded-lg border ${cellClass(comparison.better, side)}`}>
+                <p className="font-medium truncate" title={comparison[side].url}>
+                  {comparison[side].title || new URL(comparison[side].url).hostname}
+                </p>
+                <p className="text-xs">
+                  {t(`popup:analysis.riskLevels.${comparison[side].riskLevel}`)}
+                  {comparison[side].score !== undefined && <> · {t('popup:riskScore.value', { score: comparison[side].score })}</>}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-sm font-medium">
+            {comparison.better === 'tie'
+              ? t('popup:compare.verdictTie')
+              : t('popup:compare.verdict', {
+                name: comparison[comparison.better].title || new URL(comparison[comparison.better].url).hostname
+              })}
+          </p>
+
+          {comparison.approximate && (
+            <p className="text-xs text-amber-700">{t('popup:compare.approximate')}</p>
+          )}
+
+          {comparison.narrative && (
+            <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded-lg">{comparison.narrative}</p>
+          )}
+
+          {comparison.categories.length > 0 && (
+            <table className="w-full text-xs border">
+              <tbody className="divide-y">
+                {comparison.categories.map(row => (
+                  <tr key={row.category} className="divide-x align-top">
+                    <th className="p-2 text-left font-semibold bg-gray-50 w-1/4">
+                      {t(`popup:findings.categories.${row.category}`)}
+                    </th>
+                    {(['left', 'right'] as const).map(side => (
+                      <td key={side} className={`p-2 ${cellClass(row.better, side)}`}>
+                        {row[side].titles.length > 0
+                          ? row[side].titles.join('; ')
+                          : <span className="text-gray-500 italic">
+                            {t(comparison[side].score === undefined ? 'popup:compare.noDetails' : 'popup:compare.notFlagged')}
+                          </span>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ContentCopy as CopyIcon,
+  Download as DownloadIcon
+} from '@mui/icons-material';
+import { buildExport, downloadExport } from '../utils/summaryExport';
+import type { ExportFormat, ExportMetadata } from '../utils/summaryExport';
+import type { AnalysisResult } from '../types/analysis';
+
+interface ExportMenuProps {
+  result: AnalysisResult;
+  metadata: Omit<ExportMetadata, 'exportedAt'>;
+}
+
+const FORMATS: ExportFormat[] = ['markdown', 'html', 'json'];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ result, metadata }) => {
+  const { t } = useTranslation(['popup']);
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const createFile = () => buildExport(format, result, { ...metadata, exportedAt: Date.now() });
+
+  const handleDownload = () => {
+    downloadExport(createFile());
+    setStatus(t('popup:export.downloaded'));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(createFile().content);
+      setStatus(t('popup:export.copied'));
+    } catch (err) {
+      console.error('Clipboard error:', err);
+      setStatus(t('popup:export.copyFailed'));
+    }
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="space-y-1">
+        {FORMATS.map(option => (
+          <label key={option} className="flex items-center space-x-2 text-sm">
+            <input
+              type="radio"
+              name="export-format"
+              checked={format === option}
+              onChange={() => {
+                setFormat(option);
+                setStatus(null);
+              }}
+            />
+            <span>{t(`popup:export.formats.${option}`)}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <button
+          onClick={handleDownload}
+          className="flex-1 py-2 px-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm flex items-center justify-center space-x-1"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          <span>{t('popup:export.download')}</span>
+        </button>
+        <button
+          onClick={handleCopy}
+          className="flex-1 py-2 px-3 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm flex items-center justify-center space-x-1"
+        >
+          <CopyIcon className="w-4 h-4" />
+          <span>{t('popup:export.copy')}</span>
+        </button>
+      </div>
+      {status && <p className="text-xs text-gray-600">{status}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { FINDING_CATEGORIES } from '../types/analysis';
+import { localizeFinding } from '../utils/ruleAnalyzer';
+import type { Finding, Severity } from '../types/analysis';
+
+interface FindingsListProps {
+  findings: Finding[];
+  onShowInPage?: (finding: Finding) => void;
+}
+
+const severityClasses: Record<Severity, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800'
+};
+
+const FindingsList: React.FC<FindingsListProps> = ({ findings, onShowInPage }) => {
+  const { t } = useTranslation(['popup']);
+
+  // Keep the category order stable regardless of the order the model returned
+  const groups = FINDING_CATEGORIES
+    .map(category => ({
+      category,
+      items: findings.filter(finding => finding.category === category).map(finding => localizeFinding(finding, t))
+    }))
+    .filter(group => group.items.length > 0);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold">{t('popup:findings.title')}</h4>
+      {groups.map(group => (
+        <div key={group.category} className="border rounded-lg">
+          <h5 className="px-3 py-2 bg-gray-50 rounded-t-lg text-sm font-semibold text-gray-800">
+            {t(`popup:findings.categories.${group.category}`)}
+          </h5>
+          <ul className="divide-y">
+            {group.items.map((finding, index) => (
+              <li key={index} className="p-3 space-y-1">
+                <div className="flex items-start justify-between space-x-2">
+                  <span className="text-sm font-medium text-gray-900">{finding.title}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${severityClasses[finding.severity]}`}>
+                    {t(`popup:findings.severity.${finding.severity}`)}
+                  </span>
+                </div>
+                {finding.explanation && (
+                  <p className="text-sm text-gray-700">{finding.explanation}</p>
+                )}
+                <blockquote className="text-xs text-gray-600 italic border-l-2 border-gray-300 pl-2">
+                  “{finding.quote}”
+                </blockquote>
+                {onShowInPage && (
+                  <button
+                    onClick={() => onShowInPage(finding)}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    {t('popup:findings.showInPage')}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FindingsList;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ArrowBack as ArrowBackIcon,
+  Delete as DeleteIcon,
+  Search as SearchIcon
+} from '@mui/icons-material';
+import AnalysisDetails from './AnalysisDetails';
+import { sendMessage } from '../services/messaging';
+import type { HistoryEntry, HistorySummary } from '../types/history';
+import type { RiskLevel } from '../types/analysis';
+
+const riskClasses: Record<RiskLevel, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800'
+};
+
+// Typing pauses this long before the list is searched again
+const SEARCH_DEBOUNCE_MS = 300;
+
+const HistoryView: React.FC = () => {
+  const { t } = useTranslation(['popup']);
+
+  const [entries, setEntries] = useState<HistorySummary[]>([]);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [riskLevel, setRiskLevel] = useState<RiskLevel | ''>('');
+  const [selected, setSelected] = useState<HistoryEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    sendMessage({
+      action: 'getHistory',
+      search: debouncedSearch || undefined,
+      riskLevel: riskLevel || undefined
+    })
+      .then(history => {
+        setEntries(history);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Failed to load history:', err);
+        setError(t('popup:history.loadError'));
+      });
+  }, [debouncedSearch, riskLevel, t]);
+
+  const handleOpen = async (summary: HistorySummary) => {
+    try {
+      const entry = await sendMessage({ action: 'getHistoryEntry', id: summary.id });
+      if (entry) {
+        setSelected(entry);
+      } else {
+        setEntries(prev => prev.filter(item => item.id !== summary.id));
+      }
+    } catch (err) {
+      console.error('Failed to load history entry:', err);
+      setError(t('popup:history.loadError'));
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    try {
+      await sendMessage({ action: 'deleteHistoryEntry', id: entry.id });
+      setEntries(prev => prev.filter(item => item.id !== entry.id));
+      setSelected(null);
+    } catch (err) {
+      console.error('Failed to delete history entry:', err);
+      setError(t('popup:history.deleteError'));
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setSelected(null)}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:underline"
+          >
+            <ArrowBackIcon className="w-4 h-4" />
+            <span>{t('popup:history.back')}</span>
+          </button>
+          <button
+            onClick={() => handleDelete(selected)}
+            className="flex items-center space-x-1 text-sm text-red-600 hover:underline"
+          >
+            <DeleteIcon className="w-4 h-4" />
+            <span>{t('popup:history.delete')}</span>
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        <div>
+          <p className="font-medium text-gray-900 break-words">{selected.title || selected.domain}</p>
+          <a href={selected.url} target="_blank" rel="noreferrer" className="text-xs text-blue-600 break-all hover:underline">
+            {selected.url}
+          </a>
+          <p className="text-xs text-gray-500">{new Date(selected.timestamp).toLocaleString()}</p>
+          {selected.synced && (
+            <p className="text-xs text-gray-500 italic">{t('popup:history.synced')}</p>
+          )}
+        </div>
+        <AnalysisDetails result={selected.result} language={selected.language} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-bold">{t('popup:history.title')}</h3>
+      <div className="flex space-x-2">
+        <div className="flex-1 flex items-center border rounded-lg px-2">
+          <SearchIcon className="w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder={t('popup:history.searchPlaceholder')}
+            className="w-full px-2 py-1.5 text-sm outline-none"
+          />
+        </div>
+        <select
+          value={riskLevel}
+          onChange={e => setRiskLevel(e.target.value as RiskLevel | '')}
+          className="border rounded-lg px-2 text-sm"
+        >
+          <option value="">{t('popup:history.allRisks')}</option>
+          {(['low', 'medium', 'high'] as RiskLevel[]).map(level => (
+            <option key={level} value={level}>{t(`popup:analysis.riskLevels.${level}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {!error && entries.length === 0 && (
+        <p className="text-sm text-gray-500">{t('popup:history.empty')}</p>
+      )}
+
+      <ul className="divide-y border rounded-lg">
+        {entries.map(entry => (
+          <li key={entry.id}>
+            <button
+              onClick={() => handleOpen(entry)}
+              className="w-full p-3 text-left hover:bg-gray-50 flex items-start justify-between space-x-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{entry.title || entry.domain}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {entry.domain} · {new Date(entry.timestamp).toLocaleDateString()}
+                </p>
+              </div>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${riskClasses[entry.riskLevel]}`}>
+                {t(`popup:analysis.riskLevels.${entry.riskLevel}`)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryView;
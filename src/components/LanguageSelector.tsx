@@ -1,14 +1,17 @@
 import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { Language as LanguageIcon, ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
 import { useLanguage } from '../contexts/LanguageContext';
+import type { LanguageCode } from '../i18n/locales';
 
 const LanguageSelector: React.FC = () => {
+  const { t } = useTranslation(['common']);
   const { language, setLanguage, availableLanguages } = useLanguage();
   const [isOpen, setIsOpen] = useState(false);
 
   const currentLanguage = availableLanguages.find(lang => lang.code === language);
 
-  const handleLanguageChange = (langCode: 'en' | 'hi' | 'ta') => {
+  const handleLanguageChange = (langCode: LanguageCode) => {
     setLanguage(langCode);
     setIsOpen(false);
   };
@@ -18,7 +21,7 @@ const LanguageSelector: React.FC = () => {
       <button
         onClick={() => setIsOpen(!isOpen)}
         className="flex items-center space-x-1 p-2 hover:bg-white/20 rounded-lg transition-colors"
-        title="Change Language"
+        title={t('common:changeLanguage')}
       >
         <LanguageIcon className="w-4 h-4" />
         <span className="text-sm font-medium">
@@ -37,7 +40,7 @@ const LanguageSelector: React.FC = () => {
           
           {/* Dropdown */}
           <div className="absolute right-0 top-full mt-2 bg-white rounded-lg shadow-lg border min-w-[140px] z-20">
-            <div className="py-1">
+            <div className="py-1 max-h-80 overflow-y-auto">
               {availableLanguages.map((lang) => (
                 <button
                   key={lang.code}
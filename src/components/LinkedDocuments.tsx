@@ -0,0 +1,51 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Gavel as TermsIcon,
+  HourglassEmpty as LoadingIcon,
+  Lock as PrivacyIcon
+} from '@mui/icons-material';
+import type { LinkedDocument } from '../types/detection';
+
+interface LinkedDocumentsProps {
+  documents: LinkedDocument[];
+  loadingUrl: string | null;
+  onOpen: (link: LinkedDocument) => void;
+}
+
+// Terms and Privacy pages linked from the current page, each loadable for analysis
+const LinkedDocuments: React.FC<LinkedDocumentsProps> = ({ documents, loadingUrl, onOpen }) => {
+  const { t } = useTranslation(['popup']);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-gray-700">{t('popup:linked.title')}</h4>
+      <ul className="space-y-1">
+        {documents.map(link => (
+          <li key={link.url}>
+            <button
+              onClick={() => onOpen(link)}
+              disabled={loadingUrl !== null}
+              className="w-full flex items-center space-x-2 p-2 text-left text-sm rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+              title={link.url}
+            >
+              {loadingUrl === link.url ? (
+                <LoadingIcon className="w-4 h-4 text-blue-500 animate-spin" />
+              ) : link.kind === 'privacy' ? (
+                <PrivacyIcon className="w-4 h-4 text-gray-500" />
+              ) : (
+                <TermsIcon className="w-4 h-4 text-gray-500" />
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block truncate">{link.text}</span>
+                <span className="block text-xs text-gray-500">{t(`popup:linked.kinds.${link.kind}`)}</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LinkedDocuments;
@@ -0,0 +1,322 @@
+/// <reference types="chrome"/>
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  CheckCircle as CheckCircleIcon,
+  Error as ErrorIcon,
+  HourglassEmpty as LoadingIcon,
+  Settings as SettingsIcon
+} from '@mui/icons-material';
+import { settingsService, DEFAULT_SETTINGS } from '../services/SettingsService';
+import type { ExtensionSettings } from '../services/SettingsService';
+import { testProvider } from '../services/providers';
+import { sendMessage } from '../services/messaging';
+import WatchedPages from './WatchedPages';
+import RiskWeights from './RiskWeights';
+import BackupSection from './BackupSection';
+import SpeechSettings from './SpeechSettings';
+import type { ProviderId } from '../services/providers';
+
+const PROVIDERS: ProviderId[] = ['gemini', 'openai-compatible', 'mock'];
+
+const GEMINI_MODELS = ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash'];
+
+const CACHE_TTL_DAYS = [1, 3, 7, 30];
+
+const CACHE_SIZES = [50, 100, 200, 500];
+
+type TestStatus = { state: 'idle' | 'testing' | 'success' } | { state: 'error'; message: string };
+
+// Custom endpoints need a host permission granted at runtime
+const ensureHostPermission = async (baseUrl: string): Promise<boolean> => {
+  try {
+    const origins = [`${new URL(baseUrl).origin}/*`];
+    if (await chrome.permissions.contains({ origins })) return true;
+    return await chrome.permissions.request({ origins });
+  } catch {
+    return false;
+  }
+};
+
+const Options: React.FC = () => {
+  const { t } = useTranslation(['options', 'common']);
+
+  const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
+  // Only fields changed here are saved, so settings written elsewhere meanwhile aren't overwritten
+  const [edited, setEdited] = useState<Partial<ExtensionSettings>>({});
+  const [isSaved, setIsSaved] = useState(false);
+  const [testStatus, setTestStatus] = useState<TestStatus>({ state: 'idle' });
+  const [isCacheCleared, setIsCacheCleared] = useState(false);
+
+  useEffect(() => {
+    settingsService.getSettings().then(setSettings);
+  }, []);
+
+  const updateField = <K extends keyof ExtensionSettings>(key: K, value: ExtensionSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setEdited(prev => ({ ...prev, [key]: value }));
+    setIsSaved(false);
+    setTestStatus({ state: 'idle' });
+  };
+
+  const handleClearCache = async () => {
+    await sendMessage({ action: 'clearCache' });
+    setIsCacheCleared(true);
+  };
+
+  const activeBaseUrl = settings.provider === 'gemini' ? settings.geminiBaseUrl : settings.openAIBaseUrl;
+
+  const handleSave = async () => {
+    if (settings.provider !== 'mock' && !(await ensureHostPermission(activeBaseUrl))) {
+      setTestStatus({ state: 'error', message: t('options:errors.permissionDenied') });
+      return;
+    }
+    setSettings(await settingsService.updateSettings(edited));
+    setEdited({});
+    setIsSaved(true);
+  };
+
+  const handleTest = async () => {
+    if (settings.provider === 'gemini' && !settings.geminiApiKey) {
+      setTestStatus({ state: 'error', message: t('options:errors.missingKey') });
+      return;
+    }
+    if (settings.provider !== 'mock' && !(await ensureHostPermission(activeBaseUrl))) {
+      setTestStatus({ state: 'error', message: t('options:errors.permissionDenied') });
+      return;
+    }
+
+    setTestStatus({ state: 'testing' });
+    try {
+      await testProvider(settings);
+      setTestStatus({ state: 'success' });
+    } catch (error) {
+      console.error('Connection test failed:', error);
+      setTestStatus({
+        state: 'error',
+        message: error instanceof Error ? error.message : t('options:errors.testFailed')
+      });
+    }
+  };
+
+  const renderTextField = (key: 'geminiApiKey' | 'geminiModel' | 'geminiBaseUrl' | 'openAIApiKey' | 'openAIModel' | 'openAIBaseUrl',
+    label: string, type: string = 'text', list?: string) => (
+    <label className="block text-sm">
+      <span className="font-medium">{label}</span>
+      <input
+        type={type}
+        value={settings[key]}
+        list={list}
+        autoComplete="off"
+        onChange={e => updateField(key, e.target.value.trim())}
+        className="mt-1 w-full border rounded-lg px-3 py-2"
+      />
+    </label>
+  );
+
+  return (
+    <div className="max-w-xl mx-auto my-8 bg-white rounded-lg shadow">
+      <header className="bg-gradient-to-r from-blue-600 to-purple-600 text-white p-4 rounded-t-lg">
+        <div className="flex items-center space-x-2">
+          <SettingsIcon className="w-6 h-6" />
+          <h1 className="text-lg font-bold">{t('options:title')}</h1>
+        </div>
+      </header>
+
+      <main className="p-6 space-y-6">
+        <section className="space-y-2">
+          <h2 className="font-semibold">{t('options:provider.title')}</h2>
+          <p className="text-sm text-gray-600">{t('options:provider.description')}</p>
+          <div className="space-y-2">
+            {PROVIDERS.map(provider => (
+              <label key={provider} className="flex items-start space-x-2 text-sm">
+                <input
+                  type="radio"
+                  name="provider"
+                  className="mt-1"
+                  checked={settings.provider === provider}
+                  onChange={() => updateField('provider', provider)}
+                />
+                <span>
+                  <span className="font-medium">{t(`options:provider.options.${provider}.name`)}</span>
+                  <span className="block text-gray-500">{t(`options:provider.options.${provider}.hint`)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </section>
+
+        {settings.provider === 'gemini' && (
+          <section className="space-y-3">
+            {renderTextField('geminiApiKey', t('options:fields.apiKey'), 'password')}
+            <p className="text-xs text-gray-500">{t('options:fields.apiKeyHint')}</p>
+            {renderTextField('geminiModel', t('options:fields.model'), 'text', 'gemini-models')}
+            <datalist id="gemini-models">
+              {GEMINI_MODELS.map(model => <option key={model} value={model} />)}
+            </datalist>
+            {renderTextField('geminiBaseUrl', t('options:fields.baseUrl'), 'url')}
+          </section>
+        )}
+
+        {settings.provider === 'openai-compatible' && (
+          <section className="space-y-3">
+            {renderTextField('openAIBaseUrl', t('options:fields.baseUrl'), 'url')}
+            {renderTextField('openAIModel', t('options:fields.model'))}
+            {renderTextField('openAIApiKey', t('options:fields.optionalApiKey'), 'password')}
+          </section>
+        )}
+
+        {settings.provider !== 'mock' && (
+          <section className="space-y-3">
+            <h2 className="font-semibold">{t('options:generation.title')}</h2>
+            <label className="block text-sm">
+              <span className="font-medium">{t('options:generation.temperature', { value: settings.temperature })}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.1}
+                value={settings.temperature}
+                onChange={e => updateField('temperature', Number(e.target.value))}
+                className="mt-1 w-full"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium">{t('options:generation.maxOutputTokens')}</span>
+              <input
+                type="number"
+                min={256}
+                max={32768}
+                step={256}
+                value={settings.maxOutputTokens}
+                onChange={e => updateField('maxOutputTokens', Math.max(256, Number(e.target.value) || DEFAULT_SETTINGS.maxOutputTokens))}
+                className="mt-1 w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+          </section>
+        )}
+
+        <RiskWeights
+          weights={settings.categoryWeights}
+          onChange={weights => updateField('categoryWeights', weights)}
+        />
+
+        <section className="space-y-2">
+          <h2 className="font-semibold">{t('options:detection.title')}</h2>
+          <label className="flex items-start space-x-2 text-sm">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={settings.showConsentBanner}
+              onChange={e => updateField('showConsentBanner', e.target.checked)}
+            />
+            <span>
+              <span className="font-medium">{t('options:detection.banner')}</span>
+              <span className="block text-gray-500">{t('options:detection.bannerHint')}</span>
+            </span>
+          </label>
+        </section>
+
+        <SpeechSettings
+          rate={settings.speechRate}
+          voices={settings.speechVoices}
+          onRateChange={rate => updateField('speechRate', rate)}
+          onVoicesChange={voices => updateField('speechVoices', voices)}
+        />
+
+        <section className="space-y-2">
+          <h2 className="font-semibold">{t('options:cache.title')}</h2>
+          <p className="text-sm text-gray-500">{t('options:cache.description')}</p>
+          <div className="flex items-center space-x-4 text-sm">
+            <label className="flex items-center space-x-2">
+              <span>{t('options:cache.ttl')}</span>
+              <select
+                value={settings.cacheTtlHours}
+                onChange={e => updateField('cacheTtlHours', Number(e.target.value))}
+                className="border rounded-lg px-2 py-1"
+              >
+                {CACHE_TTL_DAYS.map(days => (
+                  <option key={days} value={days * 24}>{t('options:cache.days', { count: days })}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>{t('options:cache.maxEntries')}</span>
+              <select
+                value={settings.cacheMaxEntries}
+                onChange={e => updateField('cacheMaxEntries', Number(e.target.value))}
+                className="border rounded-lg px-2 py-1"
+              >
+                {CACHE_SIZES.map(size => (
+                  <option key={size} value={size}>{t('options:cache.entries', { count: size })}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleClearCache}
+              className="py-1 px-3 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+            >
+              {t('options:cache.clear')}
+            </button>
+            {isCacheCleared && <span className="text-sm text-green-700">{t('options:cache.cleared')}</span>}
+          </div>
+        </section>
+
+        <WatchedPages
+          intervalHours={settings.monitorIntervalHours}
+          onIntervalChange={hours => updateField('monitorIntervalHours', hours)}
+        />
+
+        <BackupSection
+          syncHistory={settings.syncHistory}
+          onSyncChange={enabled => updateField('syncHistory', enabled)}
+          onSettingsImported={() => settingsService.getSettings().then(imported => {
+            setSettings(imported);
+            setEdited({});
+          })}
+        />
+
+        {testStatus.state !== 'idle' && (
+          <div className={`flex items-start space-x-2 p-3 rounded-lg text-sm ${testStatus.state === 'error' ? 'bg-red-50 text-red-700' :
+            testStatus.state === 'success' ? 'bg-green-50 text-green-700' : 'bg-gray-50 text-gray-600'
+            }`}>
+            {testStatus.state === 'testing' && <LoadingIcon className="w-4 h-4 animate-spin" />}
+            {testStatus.state === 'success' && <CheckCircleIcon className="w-4 h-4" />}
+            {testStatus.state === 'error' && <ErrorIcon className="w-4 h-4" />}
+            <span>
+              {testStatus.state === 'testing' && t('options:test.testing')}
+              {testStatus.state === 'success' && t('options:test.success')}
+              {testStatus.state === 'error' && testStatus.message}
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleSave}
+            className="py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            {t('common:save')}
+          </button>
+          <button
+            onClick={handleTest}
+            disabled={testStatus.state === 'testing'}
+            className="py-2 px-4 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+          >
+            {t('options:test.button')}
+          </button>
+          {isSaved && (
+            <span className="flex items-center space-x-1 text-sm text-green-700">
+              <CheckCircleIcon className="w-4 h-4" />
+              <span>{t('options:saved')}</span>
+            </span>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Options;
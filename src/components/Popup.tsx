@@ -1,5 +1,5 @@
 /// <reference types="chrome"/>
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Warning as WarningIcon,
@@ -8,68 +8,152 @@ import {
   HourglassEmpty as LoadingIcon,
   Settings as SettingsIcon,
   Error as ErrorIcon,
+  History as HistoryIcon,
+  CompareArrows as CompareIcon,
+  NotificationsActive as WatchingIcon,
+  NotificationsNone as WatchIcon,
+  ViewSidebar as SidePanelIcon,
   WifiOff
 } from '@mui/icons-material';
 import { useLanguage } from '../contexts/LanguageContext';
 import LanguageSelector from './LanguageSelector';
+import AnalysisDetails from './AnalysisDetails';
+import ExportMenu from './ExportMenu';
+import HistoryView from './HistoryView';
+import LinkedDocuments from './LinkedDocuments';
+import CompareView from './CompareView';
+import ChatPanel from './ChatPanel';
+import BilingualView from './BilingualView';
+import AnalysisProgress from './AnalysisProgress';
 import { NetworkManager } from '../services/NetworkManager';
-
-interface TermsData {
-  found: boolean;
-  content?: string;
-  location?: string;
-  title?: string;
-}
-
-interface AnalysisResult {
-  summary: string;
-  riskLevel: 'low' | 'medium' | 'high';
-  keyPoints: string[];
-  redFlags: string[];
-  timestamp: number;
+import { handleMessages, sendMessage, sendTabMessage } from '../services/messaging';
+import { streamAnalysis } from '../services/analysisStream';
+import type { AnalysisStream } from '../services/analysisStream';
+import { describeError } from '../utils/errorMessages';
+import type { AnalysisResult, Finding } from '../types/analysis';
+import type { LinkedDocument, TermsDetectionResult } from '../types/detection';
+import type { AnalysisPreview } from '../types/stream';
+
+interface PopupProps {
+  // The side panel stays open while the user browses, so it follows the active tab
+  layout?: 'popup' | 'sidepanel';
 }
 
-const Popup: React.FC = () => {
+const Popup: React.FC<PopupProps> = ({ layout = 'popup' }) => {
   const { t } = useTranslation(['popup', 'common']);
   const { language } = useLanguage();
 
   const [hasConsent, setHasConsent] = useState(false);
-  const [termsData, setTermsData] = useState<TermsData>({ found: false });
+  const [termsData, setTermsData] = useState<TermsDetectionResult>({ found: false });
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  // Language the shown result was written in, which may no longer be the UI language
+  const [resultLanguage, setResultLanguage] = useState(language);
   const [error, setError] = useState<string | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [highlightNotice, setHighlightNotice] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [pageUrl, setPageUrl] = useState('');
+  const [view, setView] = useState<'analysis' | 'history' | 'compare'>('analysis');
+  const [isWatched, setIsWatched] = useState(false);
+  const [linkedDocuments, setLinkedDocuments] = useState<LinkedDocument[]>([]);
+  const [loadingLinkUrl, setLoadingLinkUrl] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<{ chunk: number; totalChunks: number } | null>(null);
+  const [preview, setPreview] = useState<AnalysisPreview | null>(null);
+  const streamRef = useRef<AnalysisStream | null>(null);
 
   useEffect(() => {
     const networkManager = NetworkManager.getInstance();
 
+    // Functional update, so the listener sees the current error without re-registering
     const handleOnlineStatus = (status: boolean) => {
       setIsOnline(status);
-      if (status && error?.includes('internet connection')) {
-        setError(null);
+      if (status) {
+        setError(current => current?.includes('internet connection') ? null : current);
       }
     };
 
     networkManager.addListener(handleOnlineStatus);
+    return () => {
+      networkManager.removeListener(handleOnlineStatus);
+    };
+  }, []);
 
+  // Consent check and detection run once; showDocument clears errors, so this must not follow them
+  useEffect(() => {
     chrome.storage.sync.get(['hasConsent'], (result: { hasConsent?: boolean }) => {
       if (result.hasConsent) {
         setHasConsent(true);
         detectTermsAndConditions();
       }
     });
+  }, []);
+
+  // Listeners are registered once, so they call the latest render's detection
+  const detectRef = useRef<() => Promise<void>>();
+  const redetectRef = useRef<() => void>();
+  // Tab and URL of the shown detection, so the side panel can tell a new page from a change in this one
+  const detectedPageRef = useRef<{ tabId?: number; url?: string }>({});
+  const [pageChanged, setPageChanged] = useState(false);
+
+  useEffect(() => {
+    if (layout !== 'sidepanel' || !hasConsent) return;
+
+    let windowId: number | undefined;
+    chrome.windows.getCurrent().then(current => { windowId = current.id; });
+
+    const redetect = () => {
+      streamRef.current?.cancel();
+      setTermsData({ found: false });
+      setAnalysisResult(null);
+      setLinkedDocuments([]);
+      setPageUrl('');
+      setError(null);
+      setHighlightNotice(null);
+      setIsExportOpen(false);
+      setPageChanged(false);
+      detectRef.current?.();
+    };
+    redetectRef.current = redetect;
+
+    // Another tab or URL is a new page. The same page changing, or anything while an analysis
+    // streams, only offers a re-run, so results and running analyses aren't thrown away.
+    const handlePageChange = (tabId: number, url: string | undefined) => {
+      const shown = detectedPageRef.current;
+      if (!streamRef.current && (shown.tabId !== tabId || shown.url !== url)) redetect();
+      else setPageChanged(true);
+    };
+
+    const handleActivated = (info: chrome.tabs.TabActiveInfo) => {
+      if (info.windowId !== windowId) return;
+      chrome.tabs.get(info.tabId).then(tab => handlePageChange(info.tabId, tab.url));
+    };
+
+    const handleUpdated = (tabId: number, change: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
+      if (change.status === 'complete' && tab.active && tab.windowId === windowId) handlePageChange(tabId, tab.url);
+    };
+
+    chrome.tabs.onActivated.addListener(handleActivated);
+    chrome.tabs.onUpdated.addListener(handleUpdated);
+
+    // Content changes that don't navigate (e.g. a consent dialog opening) come from auto-detection
+    const removeHandlers = handleMessages({
+      termsDetected: async message => {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (tab?.id === message.tabId) handlePageChange(message.tabId, message.url);
+        return null;
+      }
+    });
 
     return () => {
-      networkManager.removeListener(handleOnlineStatus);
+      chrome.tabs.onActivated.removeListener(handleActivated);
+      chrome.tabs.onUpdated.removeListener(handleUpdated);
+      removeHandlers();
     };
-  }, [error]);
+  }, [layout, hasConsent]);
 
+  // Detection is local, so it runs offline too; analysis then falls back to the offline check
   const detectTermsAndConditions = async () => {
-    if (!isOnline) {
-      setError(t('popup:errors.offline'));
-      return;
-    }
-
     try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
 
@@ -77,32 +161,72 @@ const Popup: React.FC = () => {
         setError(t('popup:errors.noTermsFound'));
         return;
       }
+      detectedPageRef.current = { tabId: tab.id, url: tab.url };
 
-      const response = await chrome.tabs.sendMessage(tab.id, {
+      const response = await sendTabMessage(tab.id, {
         action: 'detectTerms',
         language: language
       });
 
-      if (response && response.found) {
-        setTermsData(response);
-        setError(null);
-
-        // Check for cached analysis
-        const cachedMessage = await chrome.runtime.sendMessage({
-          action: 'getCachedAnalysis',
-          url: tab.url,
-          language: language
-        });
+      setLinkedDocuments(response.links ?? []);
 
-        if (cachedMessage && cachedMessage.success) {
-          setAnalysisResult(cachedMessage.result);
-        }
+      if (response.found) {
+        await showDocument(response, tab.url);
       } else {
         setError(t('popup:errors.noTermsFound'));
       }
     } catch (err) {
       console.error('Error detecting terms:', err);
-      setError(isOnline ? t('popup:errors.noTermsFound') : t('popup:errors.offline'));
+      setError(t('popup:errors.noTermsFound'));
+    }
+  };
+
+  detectRef.current = detectTermsAndConditions;
+
+  // Makes a detected document (on the page or linked from it) the one being analyzed
+  const showDocument = async (detected: TermsDetectionResult, url: string) => {
+    setTermsData(detected);
+    setPageUrl(url);
+    setAnalysisResult(null);
+    setIsExportOpen(false);
+
+    const watches = await sendMessage({ action: 'getWatches' });
+    setIsWatched(watches.some(watch => watch.url === url));
+    setError(null);
+
+    // Check for cached analysis
+    const cachedResult = await sendMessage({
+      action: 'getCachedAnalysis',
+      url,
+      language: language,
+      content: detected.content
+    });
+
+    if (cachedResult) {
+      setAnalysisResult(cachedResult);
+      setResultLanguage(language);
+    }
+  };
+
+  const handleOpenLinked = async (link: LinkedDocument) => {
+    setLoadingLinkUrl(link.url);
+
+    try {
+      // The background fetches the document, so it needs access to that site
+      const granted = await chrome.permissions.request({ origins: [`${new URL(link.url).origin}/*`] });
+      if (!granted) return;
+
+      const result = await sendMessage({ action: 'fetchLinkedDocument', url: link.url });
+      if (!result.found) {
+        setError(t('popup:linked.notFound'));
+        return;
+      }
+      await showDocument({ ...result, title: result.title || link.text }, link.url);
+    } catch (err) {
+      console.error('Error loading linked document:', err);
+      setError(t('popup:linked.notFound'));
+    } finally {
+      setLoadingLinkUrl(null);
     }
   };
 
@@ -120,35 +244,148 @@ const Popup: React.FC = () => {
 
     setIsAnalyzing(true);
     setError(null);
+    setAnalysisProgress(null);
+    setPreview(null);
 
     try {
       // Get the active tab
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
       if (!tab?.id) throw new Error('No active tab found');
 
-      // Send directly to background script for analysis using existing terms data
-      const response = await chrome.runtime.sendMessage({
-        action: 'analyzeTerms',
+      // Stream the analysis of the existing terms data so partial results show up as they arrive
+      const stream = streamAnalysis({
         content: termsData.content,
         language: language,
-        url: tab.url
+        url: pageUrl || tab.url,
+        title: termsData.title || tab.title,
+        documentType: termsData.documentType
+      }, {
+        onProgress: (chunk, totalChunks) => setAnalysisProgress({ chunk, totalChunks }),
+        onPreview: setPreview
       });
+      streamRef.current = stream;
 
-      if (!response.success) {
-        throw new Error(response.error || 'Failed to analyze terms');
-      }
+      const result = await stream.result;
+      if (!result) return; // Cancelled
+
+      setAnalysisResult(result);
+      setResultLanguage(language);
 
-      setAnalysisResult(response.data);
+      // Swap the "terms detected" marker for the finding count and risk colour
+      if (tab.url && tab.url === pageUrl) {
+        sendMessage({
+          action: 'updateBadge',
+          tabId: tab.id,
+          url: tab.url,
+          found: true,
+          location: termsData.location,
+          agreementPrompt: false
+        }).catch(err => console.error('Failed to update badge:', err));
+      }
     } catch (error) {
       console.error('Analysis error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to analyze terms');
+      setError(describeError(error, t('popup:errors.analysisError')));
     } finally {
+      streamRef.current = null;
       setIsAnalyzing(false);
+      setAnalysisProgress(null);
+      setPreview(null);
+    }
+  };
+
+  const handleOfflineCheck = async () => {
+    if (!termsData.content) {
+      setError(t('popup:errors.noTermsFound'));
+      return;
+    }
+
+    try {
+      setAnalysisResult(await sendMessage({
+        action: 'analyzeOffline',
+        content: termsData.content,
+        documentType: termsData.documentType
+      }));
+      // Rule-based text is rendered in the UI language
+      setResultLanguage(language);
+      setError(null);
+    } catch (err) {
+      console.error('Offline check error:', err);
+      setError(describeError(err, t('popup:errors.analysisError')));
+    }
+  };
+
+  const highlightInPage = async (findings: Finding[]) => {
+    setHighlightNotice(null);
+
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) throw new Error('No active tab found');
+
+      const { highlighted } = await sendTabMessage(tab.id, {
+        action: 'highlightFindings',
+        findings: findings.map(({ quote, severity, location }) => ({ quote, severity, location })),
+        focusIndex: 0
+      });
+
+      if (highlighted === 0) {
+        setHighlightNotice(t('popup:findings.notFoundInPage'));
+      }
+    } catch (err) {
+      console.error('Highlight error:', err);
+      setHighlightNotice(t('popup:findings.notFoundInPage'));
+    }
+  };
+
+  const handleToggleWatch = async () => {
+    try {
+      if (isWatched) {
+        await sendMessage({ action: 'unwatchPage', url: pageUrl });
+        setIsWatched(false);
+        return;
+      }
+
+      // The background fetches the page later, so it needs access to this site
+      const granted = await chrome.permissions.request({ origins: [`${new URL(pageUrl).origin}/*`] });
+      if (!granted) return;
+
+      await sendMessage({ action: 'watchPage', url: pageUrl, title: termsData.title });
+      setIsWatched(true);
+    } catch (err) {
+      console.error('Watch error:', err);
+      setError(err instanceof Error ? err.message : t('popup:watch.error'));
     }
   };
 
+  // "View Original" shows every flagged passage, starting with the most severe
+  const handleViewOriginal = () => {
+    // A linked document isn't in the current page, so open it instead
+    if (termsData.location === 'linked') {
+      chrome.tabs.create({ url: pageUrl });
+      return;
+    }
+
+    const severityOrder = { high: 0, medium: 1, low: 2 };
+    const findings = [...(analysisResult?.findings ?? [])]
+      .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+    highlightInPage(findings);
+  };
+
+  const handleOpenSidePanel = async () => {
+    try {
+      const current = await chrome.windows.getCurrent();
+      if (current.id === undefined) return;
+      await chrome.sidePanel.open({ windowId: current.id });
+      window.close();
+    } catch (err) {
+      console.error('Failed to open side panel:', err);
+    }
+  };
+
+  // The document currently shown is not offered again
+  const otherLinks = linkedDocuments.filter(link => link.url !== pageUrl);
+
   return (
-    <div className="w-96 min-h-96 bg-white">
+    <div className={`${layout === 'sidepanel' ? 'w-full min-h-screen' : 'w-96 min-h-96'} bg-white`}>
       <header className="bg-gradient-to-r from-blue-600 to-purple-600 text-white p-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
@@ -160,7 +397,40 @@ const Popup: React.FC = () => {
           </div>
           <div className="flex items-center space-x-2">
             <LanguageSelector />
-            <SettingsIcon className="w-5 h-5" />
+            {hasConsent && (
+              <button
+                onClick={() => setView(view === 'history' ? 'analysis' : 'history')}
+                className={`p-2 hover:bg-white/20 rounded-lg transition-colors ${view === 'history' ? 'bg-white/20' : ''}`}
+                title={t('popup:history.title')}
+              >
+                <HistoryIcon className="w-5 h-5" />
+              </button>
+            )}
+            {hasConsent && (
+              <button
+                onClick={() => setView(view === 'compare' ? 'analysis' : 'compare')}
+                className={`p-2 hover:bg-white/20 rounded-lg transition-colors ${view === 'compare' ? 'bg-white/20' : ''}`}
+                title={t('popup:compare.title')}
+              >
+                <CompareIcon className="w-5 h-5" />
+              </button>
+            )}
+            {hasConsent && layout === 'popup' && (
+              <button
+                onClick={handleOpenSidePanel}
+                className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+                title={t('popup:sidePanel.open')}
+              >
+                <SidePanelIcon className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => chrome.runtime.openOptionsPage()}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+              title={t('common:settings')}
+            >
+              <SettingsIcon className="w-5 h-5" />
+            </button>
           </div>
         </div>
       </header>
@@ -187,18 +457,31 @@ const Popup: React.FC = () => {
               {t('popup:consentSection.acceptButton')}
             </button>
           </div>
+        ) : view === 'history' ? (
+          <HistoryView />
+        ) : view === 'compare' ? (
+          <CompareView language={language} />
         ) : (
           <>
             <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
               {termsData.found ? (
                 <>
                   <CheckCircleIcon className="w-5 h-5 text-green-500" />
-                  <div>
-                    <p className="font-medium text-green-700">{t('popup:detection.found')}</p>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-green-700">
+                      {termsData.documentType === 'privacy' ? t('popup:privacy.detected') : t('popup:detection.found')}
+                    </p>
                     {termsData.title && (
                       <p className="text-sm text-gray-600">{termsData.title}</p>
                     )}
                   </div>
+                  <button
+                    onClick={handleToggleWatch}
+                    className={`p-2 rounded-lg hover:bg-gray-200 ${isWatched ? 'text-blue-600' : 'text-gray-500'}`}
+                    title={isWatched ? t('popup:watch.stop') : t('popup:watch.start')}
+                  >
+                    {isWatched ? <WatchingIcon className="w-5 h-5" /> : <WatchIcon className="w-5 h-5" />}
+                  </button>
                 </>
               ) : error ? (
                 <>
@@ -213,87 +496,112 @@ const Popup: React.FC = () => {
               )}
             </div>
 
-            {termsData.found && !analysisResult && (
+            {pageChanged && (
+              <div className="flex items-center justify-between space-x-2 p-2 bg-yellow-50 rounded-lg text-xs text-yellow-800">
+                <span>{t('popup:sidePanel.pageChanged')}</span>
+                <button
+                  onClick={() => redetectRef.current?.()}
+                  className="font-medium text-blue-600 hover:underline flex-shrink-0"
+                >
+                  {t('popup:sidePanel.rerun')}
+                </button>
+              </div>
+            )}
+
+            {termsData.found && !analysisResult && (isAnalyzing ? (
+              <AnalysisProgress
+                progress={analysisProgress}
+                preview={preview}
+                onCancel={() => streamRef.current?.cancel()}
+              />
+            ) : (
               <button
                 onClick={handleAnalyze}
-                disabled={isAnalyzing}
-                className="w-full py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                className="w-full py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center justify-center space-x-2"
               >
-                {isAnalyzing ? (
-                  <>
-                    <LoadingIcon className="w-4 h-4 animate-spin" />
-                    <span>{t('popup:analysis.processing')}</span>
-                  </>
-                ) : (
-                  <span>{t('popup:detection.analyzeButton')}</span>
-                )}
+                <span>{t('popup:detection.analyzeButton')}</span>
+              </button>
+            ))}
+
+            {termsData.found && error && (
+              <div className="flex items-start space-x-2 p-3 bg-red-50 rounded-lg">
+                <ErrorIcon className="w-5 h-5 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {termsData.found && !analysisResult && !isAnalyzing && (
+              <button
+                onClick={handleOfflineCheck}
+                className="w-full py-2 px-4 text-sm text-blue-700 hover:bg-blue-50 rounded-lg"
+              >
+                {t('popup:offlineAnalysis.button')}
               </button>
             )}
 
             {analysisResult && (
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-bold">{t('popup:analysis.title')}</h3>
-                  <span className={`px-2 py-1 rounded text-sm font-medium ${analysisResult.riskLevel === 'low' ? 'bg-green-100 text-green-800' :
-                    analysisResult.riskLevel === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-                      'bg-red-100 text-red-800'
-                    }`}>
-                    {t(`popup:analysis.riskLevels.${analysisResult.riskLevel}`)}
-                  </span>
-                </div>
-
-                <div className="bg-gray-50 p-4 rounded-lg">
-                  <h4 className="font-semibold mb-2">Summary</h4>
-                  <p className="text-sm text-gray-700">{analysisResult.summary}</p>
-                </div>
-
-                {analysisResult.keyPoints.length > 0 && (
-                  <div className="bg-blue-50 p-4 rounded-lg">
-                    <h4 className="font-semibold mb-2 text-blue-800">Key Points</h4>
-                    <ul className="space-y-1">
-                      {analysisResult.keyPoints.map((point, index) => (
-                        <li key={index} className="text-sm text-blue-700 flex items-start">
-                          <span className="mr-2">•</span>
-                          <span>{point}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
-
-                {analysisResult.redFlags.length > 0 && (
-                  <div className="bg-red-50 p-4 rounded-lg">
-                    <h4 className="font-semibold mb-2 text-red-800">⚠️ Important Concerns</h4>
-                    <ul className="space-y-1">
-                      {analysisResult.redFlags.map((flag, index) => (
-                        <li key={index} className="text-sm text-red-700 flex items-start">
-                          <span className="mr-2">•</span>
-                          <span>{flag}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
+                <AnalysisDetails
+                  result={analysisResult}
+                  language={resultLanguage}
+                  onShowInPage={finding => highlightInPage([finding])}
+                />
 
                 <div className="flex space-x-2">
-                  <button className="flex-1 py-2 px-4 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm">
+                  <button
+                    onClick={handleViewOriginal}
+                    className="flex-1 py-2 px-4 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm"
+                  >
                     {t('popup:actions.viewOriginal')}
                   </button>
-                  <button className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm">
+                  <button
+                    onClick={() => setIsExportOpen(!isExportOpen)}
+                    className="flex-1 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                  >
                     {t('popup:actions.exportSummary')}
                   </button>
                 </div>
+
+                {isExportOpen && (
+                  <ExportMenu
+                    result={analysisResult}
+                    metadata={{
+                      url: pageUrl,
+                      title: termsData.title,
+                      location: termsData.location,
+                      language: resultLanguage
+                    }}
+                  />
+                )}
+
+                {highlightNotice && (
+                  <p className="text-xs text-yellow-700">{highlightNotice}</p>
+                )}
               </div>
             )}
 
+            {termsData.found && termsData.content && (
+              <BilingualView content={termsData.content} language={language} findings={analysisResult?.findings ?? []} />
+            )}
+
+            {termsData.found && termsData.content && pageUrl && (
+              <ChatPanel url={pageUrl} content={termsData.content} language={language} />
+            )}
+
+            {otherLinks.length > 0 && (
+              <LinkedDocuments
+                documents={otherLinks}
+                loadingUrl={loadingLinkUrl}
+                onOpen={handleOpenLinked}
+              />
+            )}
+
             <div className="mt-4 p-3 bg-yellow-50 border-l-4 border-yellow-400">
               <div className="flex items-start space-x-2">
                 <WarningIcon className="w-4 h-4 text-yellow-600 mt-0.5" />
                 <div>
-                  <p className="text-sm font-medium text-yellow-800">⚠️ Important Disclaimer</p>
-                  <p className="text-xs text-yellow-700 mt-1">
-                    AI summaries are for informational purposes only. Always read the original terms and consult legal professionals for important decisions.
-                  </p>
+                  <p className="text-sm font-medium text-yellow-800">⚠️ {t('popup:disclaimer.title')}</p>
+                  <p className="text-xs text-yellow-700 mt-1">{t('popup:disclaimer.text')}</p>
                 </div>
               </div>
             </div>
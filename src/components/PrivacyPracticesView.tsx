@@ -0,0 +1,75 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { USER_RIGHTS } from '../types/privacy';
+import type { PrivacyPractices } from '../types/privacy';
+
+interface PrivacyPracticesViewProps {
+  practices: PrivacyPractices;
+}
+
+// Practices shown after sharing and user rights, in this order
+const TRAILING_PRACTICES = ['retention', 'crossBorderTransfers', 'childrenData'] as const;
+
+// Data-practice breakdown of a privacy policy; practices the policy is silent on are called out
+const PrivacyPracticesView: React.FC<PrivacyPracticesViewProps> = ({ practices }) => {
+  const { t } = useTranslation(['popup']);
+
+  const renderSection = (key: string, content: React.ReactNode, isEmpty: boolean) => (
+    <div key={key} className="p-3 space-y-1">
+      <h5 className="text-sm font-semibold text-gray-800">{t(`popup:privacy.sections.${key}`)}</h5>
+      {isEmpty ? <p className="text-xs text-gray-500 italic">{t('popup:privacy.notMentioned')}</p> : content}
+    </div>
+  );
+
+  const renderList = (items: string[]) => (
+    <ul className="space-y-1">
+      {items.map((item, index) => (
+        <li key={index} className="text-sm text-gray-700 flex items-start">
+          <span className="mr-2">•</span>
+          <span>{item}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold">{t('popup:privacy.title')}</h4>
+      <div className="border rounded-lg divide-y">
+        {renderSection('dataCollected', renderList(practices.dataCollected), practices.dataCollected.length === 0)}
+        {renderSection('purposes', renderList(practices.purposes), practices.purposes.length === 0)}
+        {renderSection('sharing', (
+          <ul className="space-y-1">
+            {practices.sharing.map((item, index) => (
+              <li key={index} className="text-sm text-gray-700">
+                <span className="font-medium">{item.recipient}</span>
+                {item.purpose && <span className="text-gray-600"> — {item.purpose}</span>}
+              </li>
+            ))}
+          </ul>
+        ), practices.sharing.length === 0)}
+        {renderSection('userRights', (
+          <ul className="space-y-1">
+            {USER_RIGHTS.map(right => {
+              const stated = practices.userRights.find(item => item.right === right);
+              return (
+                <li key={right} className="text-sm flex items-start space-x-2">
+                  <span className={stated ? 'text-green-600' : 'text-gray-400'}>{stated ? '✓' : '–'}</span>
+                  <span>
+                    <span className={stated ? 'font-medium text-gray-800' : 'text-gray-500'}>{t(`popup:privacy.rights.${right}`)}</span>
+                    {stated?.description && <span className="block text-xs text-gray-600">{stated.description}</span>}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        ), false)}
+        {TRAILING_PRACTICES.map(key =>
+          renderSection(key, renderList(practices[key]), practices[key].length === 0)
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrivacyPracticesView;
@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Pause as PauseIcon,
+  PlayArrow as PlayIcon,
+  SkipNext as NextIcon,
+  SkipPrevious as PreviousIcon,
+  Stop as StopIcon,
+  VolumeUp as SpeakerIcon
+} from '@mui/icons-material';
+import { SPEECH_RATES, getVoices, pickVoice, speechPlayer } from '../services/SpeechPlayer';
+import type { PlaybackStatus } from '../services/SpeechPlayer';
+import { DEFAULT_SETTINGS, settingsService } from '../services/SettingsService';
+import { NetworkManager } from '../services/NetworkManager';
+import { buildSpeechScript } from '../utils/speechScript';
+import type { AnalysisResult } from '../types/analysis';
+
+interface ReadAloudProps {
+  result: AnalysisResult;
+  // Language the analysis was written in, which the voice has to speak
+  language: string;
+}
+
+// Text-to-speech playback of the summary and findings with installed voices
+const ReadAloud: React.FC<ReadAloudProps> = ({ result, language }) => {
+  const { t, i18n } = useTranslation(['popup']);
+
+  const [status, setStatus] = useState<PlaybackStatus>(speechPlayer.getStatus());
+  const [voices, setVoices] = useState<chrome.tts.TtsVoice[] | null>(null);
+  const [rate, setRate] = useState(DEFAULT_SETTINGS.speechRate);
+  const [preferredVoices, setPreferredVoices] = useState<Record<string, string>>({});
+  const [online, setOnline] = useState(() => NetworkManager.getInstance().isNetworkAvailable());
+
+  const segments = useMemo(
+    () => buildSpeechScript(result, i18n.getFixedT(language)),
+    [result, language, i18n]
+  );
+
+  useEffect(() => {
+    getVoices()
+      .then(setVoices)
+      .catch(err => {
+        console.error('Failed to list voices:', err);
+        setVoices([]);
+      });
+    settingsService.getSettings().then(settings => {
+      setRate(settings.speechRate);
+      setPreferredVoices(settings.speechVoices);
+    });
+
+    const network = NetworkManager.getInstance();
+    network.addListener(setOnline);
+    return () => network.removeListener(setOnline);
+  }, []);
+
+  useEffect(() => speechPlayer.subscribe(setStatus), []);
+
+  // Playback belongs to the analysis on screen; closing the popup ends it too
+  useEffect(() => {
+    const stop = () => speechPlayer.stop();
+    window.addEventListener('pagehide', stop);
+    return () => {
+      window.removeEventListener('pagehide', stop);
+      stop();
+    };
+  }, [segments]);
+
+  const voice = voices ? pickVoice(voices, language, preferredVoices[language], online) : null;
+
+  const handlePlay = () => {
+    if (status.state === 'playing') {
+      speechPlayer.pause();
+    } else if (status.state === 'paused') {
+      speechPlayer.resume();
+    } else if (voice) {
+      speechPlayer.play(segments, { language, voiceName: voice.voiceName, rate });
+    }
+  };
+
+  const handleRateChange = (value: number) => {
+    setRate(value);
+    speechPlayer.setRate(value);
+    settingsService.updateSettings({ speechRate: value })
+      .catch(err => console.error('Failed to save speech rate:', err));
+  };
+
+  const active = status.state !== 'idle';
+  const position = status.index === 0
+    ? t('popup:analysis.summary')
+    : t('popup:readAloud.position', { current: status.index, total: segments.length - 1 });
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold flex items-center space-x-1">
+          <SpeakerIcon className="w-4 h-4" />
+          <span>{t('popup:readAloud.title')}</span>
+        </h4>
+        <label className="flex items-center space-x-1 text-xs text-gray-600">
+          <span>{t('popup:readAloud.speed')}</span>
+          <select
+            value={rate}
+            onChange={e => handleRateChange(Number(e.target.value))}
+            className="border rounded px-1 py-0.5"
+          >
+            {SPEECH_RATES.map(value => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {voices && !voice ? (
+        <p className="text-xs text-yellow-700">
+          {online ? t('popup:readAloud.noVoice') : t('popup:readAloud.noOfflineVoice')}
+        </p>
+      ) : (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => speechPlayer.skipTo(status.index - 1)}
+            disabled={!active || status.index === 0}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            title={t('popup:readAloud.previous')}
+          >
+            <PreviousIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handlePlay}
+            disabled={!voice}
+            className="p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50"
+            title={status.state === 'playing' ? t('popup:readAloud.pause') : t('popup:readAloud.play')}
+          >
+            {status.state === 'playing' ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => speechPlayer.skipTo(status.index + 1)}
+            disabled={!active || status.index >= segments.length - 1}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            title={t('popup:readAloud.next')}
+          >
+            <NextIcon className="w-5 h-5" />
+          </button>
+          {active && (
+            <button
+              onClick={() => speechPlayer.stop()}
+              className="p-1 rounded hover:bg-gray-100"
+              title={t('popup:readAloud.stop')}
+            >
+              <StopIcon className="w-5 h-5" />
+            </button>
+          )}
+          <span className="text-xs text-gray-600 flex-1 text-right">
+            {active ? position : voice && `${voice.voiceName}${voice.remote ? '' : ` · ${t('popup:readAloud.offlineVoice')}`}`}
+          </span>
+        </div>
+      )}
+
+      {status.error && <p className="text-xs text-red-600">{t('popup:readAloud.error')}</p>}
+    </div>
+  );
+};
+
+export default ReadAloud;
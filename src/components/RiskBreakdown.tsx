@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { RiskScore } from '../types/analysis';
+
+interface RiskBreakdownProps {
+  riskScore: RiskScore;
+}
+
+// Explains the score: which categories added how many points
+const RiskBreakdown: React.FC<RiskBreakdownProps> = ({ riskScore }) => {
+  const { t } = useTranslation(['popup']);
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (riskScore.breakdown.length === 0) return null;
+
+  return (
+    <div className="text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-blue-600 hover:underline">
+        {isOpen ? t('popup:riskScore.hideBreakdown') : t('popup:riskScore.showBreakdown')}
+      </button>
+      {isOpen && (
+        <ul className="mt-1 space-y-0.5">
+          {riskScore.breakdown.map(entry => (
+            <li key={entry.category} className="flex justify-between text-gray-700">
+              <span>
+                {t(`popup:findings.categories.${entry.category}`)}
+                {' '}
+                <span className="text-gray-500">
+                  ({t('popup:riskScore.findingCount', { count: entry.count })}, {t(`popup:findings.severity.${entry.severity}`)})
+                </span>
+              </span>
+              <span className="font-medium">+{entry.points}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RiskBreakdown;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { FINDING_CATEGORIES } from '../types/analysis';
+import { DEFAULT_CATEGORY_WEIGHTS, MAX_CATEGORY_WEIGHT, RISK_THRESHOLDS } from '../utils/riskScoring';
+import type { CategoryWeights } from '../utils/riskScoring';
+
+interface RiskWeightsProps {
+  weights: CategoryWeights;
+  onChange: (weights: CategoryWeights) => void;
+}
+
+// Per-category points used by the risk score, edited on the options page
+const RiskWeights: React.FC<RiskWeightsProps> = ({ weights, onChange }) => {
+  const { t } = useTranslation(['options', 'popup']);
+
+  const updateWeight = (category: keyof CategoryWeights, value: number) => {
+    const clamped = Math.min(MAX_CATEGORY_WEIGHT, Math.max(0, Math.round(value) || 0));
+    onChange({ ...weights, [category]: clamped });
+  };
+
+  return (
+    <section className="space-y-3">
+      <h2 className="font-semibold">{t('options:scoring.title')}</h2>
+      <p className="text-sm text-gray-600">
+        {t('options:scoring.description', { medium: RISK_THRESHOLDS.medium, high: RISK_THRESHOLDS.high })}
+      </p>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {FINDING_CATEGORIES.map(category => (
+          <label key={category} className="flex items-center justify-between text-sm space-x-2">
+            <span>{t(`popup:findings.categories.${category}`)}</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_CATEGORY_WEIGHT}
+              value={weights[category]}
+              onChange={e => updateWeight(category, Number(e.target.value))}
+              className="w-16 border rounded px-2 py-1"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={() => onChange(DEFAULT_CATEGORY_WEIGHTS)}
+        className="text-sm text-blue-600 hover:underline"
+      >
+        {t('options:scoring.reset')}
+      </button>
+    </section>
+  );
+};
+
+export default RiskWeights;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Rule as RuleIcon } from '@mui/icons-material';
+import { localizeFinding } from '../utils/ruleAnalyzer';
+import type { Finding, RuleCheck } from '../types/analysis';
+
+interface RuleCheckPanelProps {
+  ruleCheck: RuleCheck;
+  // Findings of the AI result being cross-checked
+  findings: Finding[];
+}
+
+// Local pattern-library result shown next to the AI analysis
+const RuleCheckPanel: React.FC<RuleCheckPanelProps> = ({ ruleCheck, findings }) => {
+  const { t } = useTranslation(['popup']);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const aiCategories = new Set(findings.map(finding => finding.category));
+  const ruleFindings = ruleCheck.findings.map(finding => localizeFinding(finding, t));
+  const titles = [...new Set(ruleFindings.map(finding => finding.title))];
+  // Clauses the rules matched in categories the model didn't flag at all
+  const missed = new Set(
+    ruleFindings.filter(finding => !aiCategories.has(finding.category)).map(finding => finding.title)
+  );
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <span className="flex items-center space-x-1 font-semibold text-gray-800">
+          <RuleIcon className="w-4 h-4" />
+          <span>{t('popup:ruleCheck.title')}</span>
+        </span>
+        <span className="text-xs text-gray-500">
+          {t('popup:ruleCheck.status', {
+            risk: `${t(`popup:analysis.riskLevels.${ruleCheck.riskLevel}`)} (${ruleCheck.riskScore.score})`,
+            count: ruleCheck.findings.length
+          })}
+        </span>
+      </button>
+
+      {missed.size > 0 && (
+        <p className="text-xs text-yellow-700">{t('popup:ruleCheck.missed', { count: missed.size })}</p>
+      )}
+
+      {isOpen && (
+        <>
+          {titles.length === 0 ? (
+            <p className="text-xs text-gray-500">{t('popup:ruleCheck.none')}</p>
+          ) : (
+            <ul className="space-y-1">
+              {titles.map(title => (
+                <li key={title} className="flex items-start justify-between space-x-2">
+                  <span className="text-gray-700">{title}</span>
+                  {missed.has(title) && (
+                    <span className="px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800 flex-shrink-0">
+                      {t('popup:ruleCheck.notFlaggedByAi')}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">{t('popup:ruleCheck.version', { version: ruleCheck.version })}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RuleCheckPanel;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SPEECH_RATES, getVoices, voicesFor } from '../services/SpeechPlayer';
+import { LOCALES } from '../i18n/locales';
+
+interface SpeechSettingsProps {
+  rate: number;
+  voices: Record<string, string>;
+  onRateChange: (rate: number) => void;
+  onVoicesChange: (voices: Record<string, string>) => void;
+}
+
+// Read-aloud speed and the voice used for each interface language
+const SpeechSettings: React.FC<SpeechSettingsProps> = ({ rate, voices, onRateChange, onVoicesChange }) => {
+  const { t } = useTranslation(['options']);
+  const [installed, setInstalled] = useState<chrome.tts.TtsVoice[]>([]);
+
+  useEffect(() => {
+    getVoices()
+      .then(setInstalled)
+      .catch(err => console.error('Failed to list voices:', err));
+  }, []);
+
+  const setVoice = (language: string, voiceName: string) => {
+    const next = { ...voices };
+    if (voiceName) next[language] = voiceName;
+    else delete next[language];
+    onVoicesChange(next);
+  };
+
+  return (
+    <section className="space-y-2">
+      <h2 className="font-semibold">{t('options:speech.title')}</h2>
+      <p className="text-sm text-gray-500">{t('options:speech.description')}</p>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <span>{t('options:speech.rate')}</span>
+        <select
+          value={rate}
+          onChange={e => onRateChange(Number(e.target.value))}
+          className="border rounded-lg px-2 py-1"
+        >
+          {SPEECH_RATES.map(value => (
+            <option key={value} value={value}>{value}×</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-center text-sm">
+        {LOCALES.map(locale => {
+          const available = voicesFor(installed, locale.code);
+          return (
+            <React.Fragment key={locale.code}>
+              <span>{locale.nativeName}</span>
+              {available.length > 0 ? (
+                <select
+                  value={voices[locale.code] ?? ''}
+                  onChange={e => setVoice(locale.code, e.target.value)}
+                  className="border rounded-lg px-2 py-1"
+                >
+                  <option value="">{t('options:speech.automatic')}</option>
+                  {available.map(voice => (
+                    <option key={voice.voiceName} value={voice.voiceName}>
+                      {voice.remote ? `${voice.voiceName} (${t('options:speech.online')})` : voice.voiceName}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-gray-500">{t('options:speech.noVoices')}</span>
+              )}
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default SpeechSettings;
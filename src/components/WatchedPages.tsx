@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import { sendMessage } from '../services/messaging';
+import type { WatchedPage } from '../types/monitor';
+
+interface WatchedPagesProps {
+  intervalHours: number;
+  onIntervalChange: (hours: number) => void;
+}
+
+const INTERVALS = [6, 12, 24, 72, 168];
+
+// Watch list management on the options page
+const WatchedPages: React.FC<WatchedPagesProps> = ({ intervalHours, onIntervalChange }) => {
+  const { t } = useTranslation(['options']);
+  const [watches, setWatches] = useState<WatchedPage[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    sendMessage({ action: 'getWatches' })
+      .then(setWatches)
+      .catch(error => console.error('Failed to load watched pages:', error));
+  }, []);
+
+  const handleRemove = async (url: string) => {
+    await sendMessage({ action: 'unwatchPage', url });
+    setWatches(prev => prev.filter(watch => watch.url !== url));
+  };
+
+  const handleCheckNow = async () => {
+    setIsChecking(true);
+    try {
+      setWatches(await sendMessage({ action: 'checkWatches' }));
+    } catch (error) {
+      console.error('Failed to check watched pages:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <h2 className="font-semibold">{t('options:monitor.title')}</h2>
+      <p className="text-sm text-gray-600">{t('options:monitor.description')}</p>
+
+      <label className="block text-sm">
+        <span className="font-medium">{t('options:monitor.interval')}</span>
+        <select
+          value={intervalHours}
+          onChange={e => onIntervalChange(Number(e.target.value))}
+          className="mt-1 w-full border rounded-lg px-3 py-2"
+        >
+          {INTERVALS.map(hours => (
+            <option key={hours} value={hours}>{t('options:monitor.everyHours', { count: hours })}</option>
+          ))}
+        </select>
+      </label>
+
+      {watches.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('options:monitor.empty')}</p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {watches.map(watch => (
+            <li key={watch.url} className="p-3 flex items-start justify-between space-x-2">
+              <div className="min-w-0 text-sm">
+                <p className="font-medium truncate">{watch.title || watch.url}</p>
+                <p className="text-xs text-gray-500 truncate">{watch.url}</p>
+                <p className="text-xs text-gray-500">
+                  {watch.lastCheckedAt
+                    ? t('options:monitor.lastChecked', { date: new Date(watch.lastCheckedAt).toLocaleString() })
+                    : t('options:monitor.neverChecked')}
+                  {watch.lastChangedAt && ` · ${t('options:monitor.lastChanged', { date: new Date(watch.lastChangedAt).toLocaleString() })}`}
+                </p>
+                {watch.lastError && <p className="text-xs text-red-600">{watch.lastError}</p>}
+              </div>
+              <button
+                onClick={() => handleRemove(watch.url)}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title={t('options:monitor.remove')}
+              >
+                <DeleteIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {watches.length > 0 && (
+        <button
+          onClick={handleCheckNow}
+          disabled={isChecking}
+          className="py-2 px-4 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 text-sm flex items-center space-x-1"
+        >
+          <RefreshIcon className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
+          <span>{t('options:monitor.checkNow')}</span>
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default WatchedPages;
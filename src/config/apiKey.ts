@@ -1,2 +1,3 @@
+// Optional development fallback. Users normally enter their key on the options page.
 // Get your API key from https://makersuite.google.com/app/apikey
-export const GEMINI_API_KEY = 'YOUR-API-KEY'; // Your API key should be inside single or double quotes
\ No newline at end of file
+export const GEMINI_API_KEY = 'YOUR-API-KEY'; // Your API key should be inside single or double quotes
@@ -0,0 +1,109 @@
+import { AGREEMENT_CONTROL_SELECTORS, CONTENT_SELECTORS, MODAL_SELECTORS, isAgreementText } from '../utils/termsHeuristics';
+import type { DetectionReport } from '../types/detection';
+
+// Consent modals tend to animate in; wait for the DOM to settle before re-scanning
+const DETECTION_DEBOUNCE_MS = 1500;
+
+// Added or removed content with less text than this can't be a terms document
+const MIN_CHANGED_TEXT = 200;
+
+// After this many re-scans in a row with the same outcome, attribute changes alone stop triggering more
+const STABLE_RUNS = 3;
+
+// Elements detection looks inside; style or class changes elsewhere can't change its outcome
+const WATCHED_SELECTOR = [...MODAL_SELECTORS, ...CONTENT_SELECTORS, ...AGREEMENT_CONTROL_SELECTORS].join(', ');
+const CONTROL_SELECTOR = AGREEMENT_CONTROL_SELECTORS.join(', ');
+
+const hasEnoughText = (node: Node) => (node.textContent?.length ?? 0) >= MIN_CHANGED_TEXT;
+
+// A short "I agree to the Terms" checkbox or button matters however little text it has
+const hasAgreementControl = (node: Node) =>
+  node instanceof Element &&
+  (node.matches(CONTROL_SELECTOR) || node.querySelector(CONTROL_SELECTOR) !== null) &&
+  isAgreementText(node instanceof HTMLInputElement ? node.value : node.textContent ?? '');
+
+const isWatchedElement = (node: Node) =>
+  node instanceof Element &&
+  node !== document.body &&
+  node !== document.documentElement &&
+  node.matches(WATCHED_SELECTOR);
+
+/**
+ * Runs detection once on load and again when the DOM changes in a way that
+ * could matter, calling `onChange` only when the outcome differs from the
+ * last report. Re-scans build a text map of the whole page, so once the
+ * outcome has settled, attribute toggles are ignored until nodes are added
+ * or the page navigates client-side.
+ */
+export class AutoDetector {
+  private observer: MutationObserver | null = null;
+  private timer: number | undefined;
+  private lastKey = '';
+  private unchangedRuns = 0;
+  private url = location.href;
+
+  constructor(
+    private detect: () => DetectionReport,
+    private onChange: (report: DetectionReport) => void,
+    private ignoreSelector?: string
+  ) {}
+
+  start() {
+    this.run();
+
+    this.observer = new MutationObserver(mutations => {
+      // A client-side navigation is a new page to watch
+      if (location.href !== this.url) {
+        this.url = location.href;
+        this.unchangedRuns = 0;
+        this.schedule();
+        return;
+      }
+
+      const relevant = mutations.filter(mutation => !this.isIgnored(mutation.target));
+      // New nodes can bring a consent prompt at any time, so they wake a settled page
+      if (relevant.some(mutation => mutation.addedNodes.length > 0)) this.unchangedRuns = 0;
+
+      const changed = relevant.some(mutation => mutation.type === 'childList'
+        ? [...mutation.addedNodes, ...mutation.removedNodes].some(node => hasEnoughText(node) || hasAgreementControl(node))
+        : this.unchangedRuns < STABLE_RUNS && isWatchedElement(mutation.target));
+      if (changed) this.schedule();
+    });
+    this.observer.observe(document.body, {
+      childList: true,
+      subtree: true,
+      // Modals are often present from the start and only toggled visible
+      attributes: true,
+      attributeFilter: ['class', 'style', 'hidden', 'open', 'aria-hidden']
+    });
+  }
+
+  stop() {
+    window.clearTimeout(this.timer);
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+
+  private schedule() {
+    window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => this.run(), DETECTION_DEBOUNCE_MS);
+  }
+
+  private run() {
+    const report = this.detect();
+    const key = `${report.found}|${report.location ?? ''}|${report.agreementPrompt}`;
+    if (key === this.lastKey) {
+      this.unchangedRuns++;
+      return;
+    }
+    this.lastKey = key;
+    this.unchangedRuns = 0;
+    this.onChange(report);
+  }
+
+  private isIgnored(node: Node): boolean {
+    if (!this.ignoreSelector) return false;
+    const element = node instanceof Element ? node : node.parentElement;
+    return element?.closest(this.ignoreSelector) != null;
+  }
+}
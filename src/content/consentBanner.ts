@@ -0,0 +1,105 @@
+import enCommon from '../locales/en/common.json';
+
+type BannerStrings = typeof enCommon.banner;
+
+// Only the banner strings of each locale are bundled into the content script
+const BANNER_STRINGS: Record<string, BannerStrings> = Object.fromEntries(
+  Object.entries(import.meta.glob<BannerStrings>('../locales/*/common.json', { eager: true, import: 'banner' }))
+    .map(([path, banner]) => [path.split('/')[2], banner])
+);
+
+export const BANNER_HOST_ID = 'tc-analyzer-banner';
+
+// Remembered per tab so re-detection after DOM changes doesn't bring it back
+const DISMISSED_KEY = 'tc-analyzer-banner-dismissed';
+
+const BANNER_STYLES = `
+:host { all: initial; }
+.banner {
+  position: fixed; right: 16px; bottom: 16px; z-index: 2147483647;
+  max-width: 340px; padding: 12px 14px; border-radius: 8px;
+  background: #1e3a8a; color: #fff; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.25);
+  font: 13px/1.4 system-ui, sans-serif;
+}
+.title { font-weight: 600; margin: 0 0 4px; }
+.message { margin: 0 0 8px; }
+.actions { display: flex; gap: 8px; justify-content: flex-end; }
+button {
+  border: 0; border-radius: 4px; padding: 4px 10px; cursor: pointer;
+  font: inherit; background: rgba(255, 255, 255, 0.15); color: #fff;
+}
+button.primary { background: #fff; color: #1e3a8a; }
+`;
+
+// Dismissible reminder shown on pages that ask the user to accept terms
+export class ConsentBanner {
+  private host: HTMLElement | null = null;
+
+  isDismissed(): boolean {
+    try {
+      return sessionStorage.getItem(DISMISSED_KEY) === '1';
+    } catch {
+      return false;
+    }
+  }
+
+  show(language: string, onDisable: () => void) {
+    if (this.host || this.isDismissed()) return;
+
+    const strings = BANNER_STRINGS[language] ?? BANNER_STRINGS.en;
+    const host = document.createElement('div');
+    host.id = BANNER_HOST_ID;
+    // Closed shadow root keeps page styles out and our markup away from page scripts
+    const root = host.attachShadow({ mode: 'closed' });
+
+    const style = document.createElement('style');
+    style.textContent = BANNER_STYLES;
+
+    const banner = document.createElement('div');
+    banner.className = 'banner';
+    banner.setAttribute('role', 'status');
+
+    const title = document.createElement('p');
+    title.className = 'title';
+    title.textContent = strings.title;
+
+    const message = document.createElement('p');
+    message.className = 'message';
+    message.textContent = strings.message;
+
+    const actions = document.createElement('div');
+    actions.className = 'actions';
+
+    const disable = document.createElement('button');
+    disable.textContent = strings.dontShowAgain;
+    disable.addEventListener('click', () => {
+      this.dismiss();
+      onDisable();
+    });
+
+    const dismiss = document.createElement('button');
+    dismiss.className = 'primary';
+    dismiss.textContent = strings.dismiss;
+    dismiss.addEventListener('click', () => this.dismiss());
+
+    actions.append(disable, dismiss);
+    banner.append(title, message, actions);
+    root.append(style, banner);
+    document.body.appendChild(host);
+    this.host = host;
+  }
+
+  hide() {
+    this.host?.remove();
+    this.host = null;
+  }
+
+  private dismiss() {
+    this.hide();
+    try {
+      sessionStorage.setItem(DISMISSED_KEY, '1');
+    } catch {
+      // Storage can be blocked on sandboxed pages; the banner then only stays closed until reload
+    }
+  }
+}
@@ -1,18 +1,46 @@
 // Content script for detecting Terms and Conditions
-interface TermsDetectionResult {
-  found: boolean;
-  content?: string;
-  location?: string;
-  title?: string;
-}
+import { buildTextMap } from './textMap';
+import type { TextMap } from './textMap';
+import { ClauseHighlighter } from './highlighter';
+import { AutoDetector } from './autoDetect';
+import { BANNER_HOST_ID, ConsentBanner } from './consentBanner';
+import { handleMessages, sendMessage } from '../services/messaging';
+import type { DetectionReport, LinkedDocument, TermsDetectionResult } from '../types/detection';
+import { classifyDocument } from '../utils/documentClassifier';
+import { collectLinkedDocuments } from '../utils/termsLinks';
+import type { LinkCandidate } from '../utils/termsLinks';
+import {
+  calculateConfidence,
+  containsPrivacyIndicators,
+  containsTermsIndicators,
+  isAgreementText,
+  AGREEMENT_BUTTON_SELECTORS,
+  CONFIDENCE_THRESHOLD,
+  CONTENT_SELECTORS,
+  MIN_ELEMENT_TEXT_LENGTH,
+  MIN_PAGE_TEXT_LENGTH,
+  MODAL_SELECTORS,
+  PAGE_EXCLUDE_SELECTORS
+} from '../utils/termsHeuristics';
 
 class TermsDetector {
-  private termsIndicators = [
-    'terms of service', 'terms and conditions', 'user agreement',
-    'terms of use', 'service agreement', 'legal terms'
-  ];
+  // Offset-to-DOM map of the text returned by the last successful detection
+  private textMap: TextMap | null = null;
+
+  getTextMap(): TextMap | null {
+    return this.textMap;
+  }
 
   detectTermsAndConditions(): TermsDetectionResult {
+    const result = this.findDocument();
+    if (!result.found || !result.content) return result;
+    return {
+      ...result,
+      documentType: classifyDocument(result.content, result.title || document.title, window.location.href)
+    };
+  }
+
+  private findDocument(): TermsDetectionResult {
     try {
       // Strategy 1: Look for modal dialogs
       const modalResult = this.searchInModals();
@@ -33,12 +61,68 @@ class TermsDetector {
     }
   }
 
-  private searchInModals(): TermsDetectionResult {
-    const modalSelectors = [
-      '.modal', '.popup', '.dialog', '[role="dialog"]', '[aria-modal="true"]'
-    ];
+  // Looks for an "I agree" checkbox or button the user is expected to click
+  hasAgreementPrompt(): boolean {
+    const checkboxes = document.querySelectorAll<HTMLInputElement>('input[type="checkbox"]');
+    for (const checkbox of checkboxes) {
+      if (this.isVisible(checkbox) && isAgreementText(this.getControlLabel(checkbox))) {
+        return true;
+      }
+    }
+
+    const buttons = document.querySelectorAll<HTMLElement>(
+      AGREEMENT_BUTTON_SELECTORS.join(', ')
+    );
+    for (const button of buttons) {
+      const label = button instanceof HTMLInputElement ? button.value : button.textContent || '';
+      if (this.isVisible(button) && isAgreementText(label)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Terms and Privacy pages linked from this one, e.g. from a sign-up form or the footer
+  findLinkedDocuments(): LinkedDocument[] {
+    const candidates: LinkCandidate[] = [];
 
-    for (const selector of modalSelectors) {
+    // <link rel="terms-of-service"> and friends in the head are explicit hints
+    document.querySelectorAll<HTMLLinkElement>('link[rel][href]').forEach(link => {
+      candidates.push({ href: link.href, text: link.title, rel: link.rel, context: 'rel' });
+    });
+
+    document.querySelectorAll<HTMLAnchorElement>('a[href]').forEach(anchor => {
+      candidates.push({
+        href: anchor.href,
+        text: anchor.textContent || anchor.title || '',
+        rel: anchor.rel,
+        context: this.getLinkContext(anchor)
+      });
+    });
+
+    return collectLinkedDocuments(candidates, window.location.href);
+  }
+
+  private getLinkContext(anchor: HTMLAnchorElement): LinkCandidate['context'] {
+    if (anchor.closest('label') || anchor.parentElement?.querySelector('input[type="checkbox"]')) {
+      return 'consent';
+    }
+    if (anchor.closest('footer, [role="contentinfo"]')) {
+      return 'footer';
+    }
+    return 'page';
+  }
+
+  private getControlLabel(control: HTMLInputElement): string {
+    const labels = control.labels ? Array.from(control.labels) : [];
+    const text = labels.map(label => label.textContent || '').join(' ');
+    // Custom checkboxes often sit next to their text instead of inside a <label>
+    return text.trim() || control.getAttribute('aria-label') || control.parentElement?.textContent || '';
+  }
+
+  private searchInModals(): TermsDetectionResult {
+    for (const selector of MODAL_SELECTORS) {
       const modals = document.querySelectorAll(selector);
       
       for (const modal of modals) {
@@ -55,12 +139,15 @@ class TermsDetector {
   }
 
   private searchInPage(): TermsDetectionResult {
-    const pageTitle = document.title.toLowerCase();
-    const url = window.location.href.toLowerCase();
+    const pageTitle = document.title;
+    const url = window.location.href;
     
-    if (this.containsTermsIndicators(pageTitle) || this.containsTermsIndicators(url)) {
-      const content = this.extractPageContent();
-      if (content && content.length > 500) {
+    if (containsTermsIndicators(pageTitle) || containsTermsIndicators(url) ||
+        containsPrivacyIndicators(pageTitle) || containsPrivacyIndicators(url)) {
+      const textMap = this.extractPageContent();
+      const content = textMap.text;
+      if (content && content.length > MIN_PAGE_TEXT_LENGTH) {
+        this.textMap = textMap;
         return {
           found: true,
           content: content,
@@ -74,12 +161,7 @@ class TermsDetector {
   }
 
   private searchEmbeddedContent(): TermsDetectionResult {
-    const contentSelectors = [
-      'main', '[role="main"]', '.main-content', '.content',
-      '.terms-content', '.legal-content', '.agreement-content'
-    ];
-
-    for (const selector of contentSelectors) {
+    for (const selector of CONTENT_SELECTORS) {
       const element = document.querySelector(selector);
       if (element) {
         const result = this.analyzeElement(element as HTMLElement);
@@ -93,13 +175,15 @@ class TermsDetector {
   }
 
   private analyzeElement(element: HTMLElement): TermsDetectionResult {
-    const text = this.extractTextContent(element);
+    const textMap = this.extractTextContent(element);
+    const text = textMap.text;
     
-    if (!text || text.length < 200) {
+    if (!text || text.length < MIN_ELEMENT_TEXT_LENGTH) {
       return { found: false };
     }
 
-    if (this.calculateConfidence(text) > 0.6) {
+    if (calculateConfidence(text) > CONFIDENCE_THRESHOLD) {
+      this.textMap = textMap;
       return {
         found: true,
         content: text
@@ -109,70 +193,13 @@ class TermsDetector {
     return { found: false };
   }
 
-  private extractTextContent(element: HTMLElement): string {
-    const clone = element.cloneNode(true) as HTMLElement;
-    
-    // Remove script and style elements
-    const scriptsAndStyles = clone.querySelectorAll('script, style, noscript');
-    scriptsAndStyles.forEach(el => el.remove());
-    
-    const text = clone.textContent || clone.innerText || '';
-    
-    return text
-      .replace(/\s+/g, ' ')
-      .trim()
-      .substring(0, 50000);
+  private extractTextContent(element: HTMLElement, excludeSelector?: string): TextMap {
+    // Walks the live DOM (not a clone) so offsets can be mapped back to ranges
+    return buildTextMap(element, excludeSelector);
   }
 
-  private extractPageContent(): string {
-    const excludeSelectors = [
-      'nav', 'header', 'footer', '.navigation', '.nav',
-      '.sidebar', '.menu', '.breadcrumb'
-    ];
-
-    const body = document.body.cloneNode(true) as HTMLElement;
-    
-    excludeSelectors.forEach(selector => {
-      const elements = body.querySelectorAll(selector);
-      elements.forEach(el => el.remove());
-    });
-
-    return this.extractTextContent(body);
-  }
-
-  private calculateConfidence(text: string): number {
-    let confidence = 0;
-    const lowerText = text.toLowerCase();
-    
-    // Check for terms indicators
-    const termsMatches = this.termsIndicators.filter(indicator => 
-      lowerText.includes(indicator)
-    ).length;
-    confidence += termsMatches * 0.2;
-    
-    // Check for legal language patterns
-    const legalPatterns = [
-      'hereby agree', 'privacy policy', 'liability', 'jurisdiction',
-      'governing law', 'dispute resolution', 'termination'
-    ];
-    
-    const legalMatches = legalPatterns.filter(pattern => 
-      lowerText.includes(pattern)
-    ).length;
-    confidence += legalMatches * 0.1;
-    
-    // Check text length
-    if (text.length > 1000) confidence += 0.1;
-    if (text.length > 5000) confidence += 0.1;
-    if (text.length < 500) confidence -= 0.3;
-    
-    return Math.min(confidence, 1.0);
-  }
-
-  private containsTermsIndicators(text: string): boolean {
-    return this.termsIndicators.some(indicator => 
-      text.includes(indicator)
-    );
+  private extractPageContent(): TextMap {
+    return this.extractTextContent(document.body, PAGE_EXCLUDE_SELECTORS.join(', '));
   }
 
   private isVisible(element: HTMLElement): boolean {
@@ -185,19 +212,64 @@ class TermsDetector {
 
 // Initialize detector
 const detector = new TermsDetector();
+const highlighter = new ClauseHighlighter();
+const banner = new ConsentBanner();
 
-// Message listener
-chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
-  if (request.action === 'detectTerms') {
-    try {
-      const result = detector.detectTermsAndConditions();
-      sendResponse(result);
-    } catch (error) {
-      console.error('Terms detection failed:', error);
-      sendResponse({ found: false, error: 'Detection failed' });
+const detectForReport = (): DetectionReport => {
+  const result = detector.detectTermsAndConditions();
+  return {
+    found: result.found,
+    location: result.location,
+    agreementPrompt: detector.hasAgreementPrompt()
+  };
+};
+
+// The background owns settings (API keys included), so it decides whether the banner shows
+const onDetectionChange = async (report: DetectionReport) => {
+  let showBanner = false;
+  try {
+    ({ showConsentBanner: showBanner } = await sendMessage({ action: 'updateBadge', url: window.location.href, ...report }));
+  } catch (error) {
+    // The background may be restarting after an update; the next change reports again
+    console.debug('Could not update badge:', error);
+  }
+
+  if (!showBanner) {
+    banner.hide();
+    return;
+  }
+
+  const { language } = await chrome.storage.sync.get('language');
+  banner.show(typeof language === 'string' ? language : 'en', () => {
+    sendMessage({ action: 'dismissConsentBanner' })
+      .catch(error => console.debug('Could not turn off the banner:', error));
+  });
+};
+
+// Detect on load and again when late consent modals appear
+new AutoDetector(detectForReport, onDetectionChange, `#${BANNER_HOST_ID}`).start();
+
+// Message handlers
+handleMessages({
+  detectTerms: () => ({
+    ...detector.detectTermsAndConditions(),
+    links: detector.findLinkedDocuments()
+  }),
+
+  highlightFindings: message => {
+    // Detection may not have run in this page yet (e.g. popup showed a cached result)
+    if (!detector.getTextMap()) {
+      detector.detectTermsAndConditions();
+    }
+    const textMap = detector.getTextMap();
+    if (!textMap) {
+      throw new Error('No terms detected on this page');
     }
-    return true;
+    return { highlighted: highlighter.highlight(textMap, message.findings, message.focusIndex) };
+  },
+
+  clearHighlights: () => {
+    highlighter.clear();
+    return null;
   }
-  
-  return false;
-});
\ No newline at end of file
+});
@@ -0,0 +1,77 @@
+import { locateQuote } from '../utils/quoteLocator';
+import type { HighlightTarget, Severity } from '../types/analysis';
+import type { TextMap } from './textMap';
+
+const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+
+const HIGHLIGHT_STYLES = `
+::highlight(tc-analyzer-low) { background-color: rgba(134, 239, 172, 0.6); }
+::highlight(tc-analyzer-medium) { background-color: rgba(253, 224, 71, 0.6); }
+::highlight(tc-analyzer-high) { background-color: rgba(252, 165, 165, 0.7); }
+`;
+
+// Paints finding quotes in the page without touching the page's own DOM
+export class ClauseHighlighter {
+  private styleElement: HTMLStyleElement | null = null;
+
+  highlight(textMap: TextMap, targets: HighlightTarget[], focusIndex: number = 0): number {
+    this.clear();
+
+    const ranges = targets.map(target => {
+      const span = this.resolveSpan(textMap, target);
+      const range = span ? textMap.rangeFor(span.start, span.end) : null;
+      return range ? { range, severity: target.severity } : null;
+    });
+
+    const found = ranges.filter((entry): entry is { range: Range; severity: Severity } => entry !== null);
+    if (found.length === 0) return 0;
+
+    if (typeof Highlight !== 'undefined' && CSS.highlights) {
+      this.injectStyles();
+      for (const severity of SEVERITIES) {
+        const severityRanges = found.filter(entry => entry.severity === severity).map(entry => entry.range);
+        if (severityRanges.length > 0) {
+          CSS.highlights.set(`tc-analyzer-${severity}`, new Highlight(...severityRanges));
+        }
+      }
+    }
+
+    const focused = ranges[focusIndex] ?? found[0];
+    this.scrollTo(focused.range);
+    return found.length;
+  }
+
+  clear() {
+    for (const severity of SEVERITIES) {
+      CSS.highlights?.delete(`tc-analyzer-${severity}`);
+    }
+  }
+
+  // Stored offsets are trusted only if the page text still matches the quote
+  private resolveSpan(textMap: TextMap, target: HighlightTarget) {
+    const { location, quote } = target;
+    if (location && textMap.text.substring(location.start, location.end) === quote) {
+      return location;
+    }
+    return locateQuote(textMap.text, quote);
+  }
+
+  private scrollTo(range: Range) {
+    const container = range.startContainer.parentElement;
+    container?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    // Without the highlight API, fall back to selecting the passage
+    if (typeof Highlight === 'undefined' || !CSS.highlights) {
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+    }
+  }
+
+  private injectStyles() {
+    if (this.styleElement?.isConnected) return;
+    this.styleElement = document.createElement('style');
+    this.styleElement.textContent = HIGHLIGHT_STYLES;
+    (document.head || document.documentElement).appendChild(this.styleElement);
+  }
+}
@@ -0,0 +1,82 @@
+import { LINE_TAGS, PARAGRAPH_TAGS, SKIPPED_TAGS } from '../utils/htmlToText';
+
+// Builds the normalized text of a DOM subtree while remembering, for every
+// character, which text node and offset it came from. This lets findings
+// located by character offsets be turned back into live DOM ranges.
+
+export interface TextMap {
+  text: string;
+  rangeFor(start: number, end: number): Range | null;
+}
+
+export function buildTextMap(root: Node, excludeSelector?: string): TextMap {
+  const nodes: Text[] = [];
+  const chars: string[] = [];
+  // Parallel arrays: source node index and offset of each output character
+  const charNodes: number[] = [];
+  const charOffsets: number[] = [];
+
+  let pendingBreak = '';
+  let pendingSpace = false;
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode(node) {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        const element = node as Element;
+        if (SKIPPED_TAGS.has(element.tagName)) return NodeFilter.FILTER_REJECT;
+        if (excludeSelector && element.matches(excludeSelector)) return NodeFilter.FILTER_REJECT;
+      }
+      return NodeFilter.FILTER_ACCEPT;
+    }
+  });
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const tagName = (node as Element).tagName;
+      if (PARAGRAPH_TAGS.has(tagName)) pendingBreak = '\n\n';
+      else if (LINE_TAGS.has(tagName) && !pendingBreak) pendingBreak = '\n';
+      continue;
+    }
+
+    const textNode = node as Text;
+    const value = textNode.data;
+    const nodeIndex = nodes.push(textNode) - 1;
+
+    for (let offset = 0; offset < value.length; offset++) {
+      if (/\s/.test(value[offset])) {
+        pendingSpace = true;
+        continue;
+      }
+
+      // Separators are attributed to the character that follows them
+      const separator = chars.length === 0 ? '' : pendingBreak || (pendingSpace ? ' ' : '');
+      for (const char of separator) {
+        chars.push(char);
+        charNodes.push(nodeIndex);
+        charOffsets.push(offset);
+      }
+      pendingBreak = '';
+      pendingSpace = false;
+
+      chars.push(value[offset]);
+      charNodes.push(nodeIndex);
+      charOffsets.push(offset);
+    }
+  }
+
+  return {
+    text: chars.join(''),
+    rangeFor(start: number, end: number): Range | null {
+      if (start < 0 || end > chars.length || start >= end) return null;
+
+      const startNode = nodes[charNodes[start]];
+      const endNode = nodes[charNodes[end - 1]];
+      if (!startNode.isConnected || !endNode.isConnected) return null;
+
+      const range = document.createRange();
+      range.setStart(startNode, charOffsets[start]);
+      range.setEnd(endNode, charOffsets[end - 1] + 1);
+      return range;
+    }
+  };
+}
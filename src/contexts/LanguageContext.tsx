@@ -1,12 +1,12 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-
-type Language = 'en' | 'hi' | 'ta';
+import { DEFAULT_LANGUAGE, isLanguageCode, LOCALES } from '../i18n/locales';
+import type { LanguageCode } from '../i18n/locales';
 
 interface LanguageContextType {
-  language: Language;
-  setLanguage: (lang: Language) => void;
-  availableLanguages: { code: Language; name: string; nativeName: string }[];
+  language: LanguageCode;
+  setLanguage: (lang: LanguageCode) => void;
+  availableLanguages: typeof LOCALES;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
@@ -25,26 +25,20 @@ interface LanguageProviderProps {
 
 export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
   const { i18n } = useTranslation();
-  const [language, setLanguageState] = useState<Language>('en');
-
-  const availableLanguages = [
-    { code: 'en' as Language, name: 'English', nativeName: 'English' },
-    { code: 'hi' as Language, name: 'Hindi', nativeName: 'हिन्दी' },
-    { code: 'ta' as Language, name: 'Tamil', nativeName: 'தமிழ்' }
-  ];
+  const [language, setLanguageState] = useState<LanguageCode>(DEFAULT_LANGUAGE);
 
   useEffect(() => {
     // Load saved language from Chrome storage
     chrome.storage.sync.get(['language'], (result) => {
-      const savedLanguage = result.language as Language;
-      if (savedLanguage && availableLanguages.some(lang => lang.code === savedLanguage)) {
+      const savedLanguage = result.language;
+      if (isLanguageCode(savedLanguage)) {
         setLanguageState(savedLanguage);
         i18n.changeLanguage(savedLanguage);
       }
     });
   }, [i18n]);
 
-  const setLanguage = (lang: Language) => {
+  const setLanguage = (lang: LanguageCode) => {
     setLanguageState(lang);
     i18n.changeLanguage(lang);
     chrome.storage.sync.set({ language: lang });
@@ -53,7 +47,7 @@ export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children })
   const value: LanguageContextType = {
     language,
     setLanguage,
-    availableLanguages
+    availableLanguages: LOCALES
   };
 
   return (
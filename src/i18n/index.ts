@@ -1,40 +1,27 @@
 import i18n from 'i18next';
 import { initReactI18next } from 'react-i18next';
 import LanguageDetector from 'i18next-browser-languagedetector';
+import { DEFAULT_LANGUAGE, LOCALES } from './locales';
 
-// Import translation files
-import enCommon from '../locales/en/common.json';
-import enPopup from '../locales/en/popup.json';
+const NAMESPACES = ['common', 'popup', 'options'] as const;
 
-import hiCommon from '../locales/hi/common.json';
-import hiPopup from '../locales/hi/popup.json';
+// Translation files for every locale in the registry, bundled at build time
+const localeFiles = import.meta.glob<Record<string, unknown>>('../locales/*/*.json', { eager: true, import: 'default' });
 
-import taCommon from '../locales/ta/common.json';
-import taPopup from '../locales/ta/popup.json';
-
-const resources = {
-  en: {
-    common: enCommon,
-    popup: enPopup
-  },
-  hi: {
-    common: hiCommon,
-    popup: hiPopup
-  },
-  ta: {
-    common: taCommon,
-    popup: taPopup
-  }
-};
+const resources = Object.fromEntries(LOCALES.map(({ code }) => [
+  code,
+  Object.fromEntries(NAMESPACES.map(namespace => [namespace, localeFiles[`../locales/${code}/${namespace}.json`] ?? {}]))
+]));
 
 i18n
   .use(LanguageDetector)
   .use(initReactI18next)
   .init({
     resources,
-    fallbackLng: 'en',
+    supportedLngs: LOCALES.map(locale => locale.code),
+    fallbackLng: DEFAULT_LANGUAGE,
     defaultNS: 'common',
-    ns: ['common', 'popup'],
+    ns: [...NAMESPACES],
     
     detection: {
       order: ['localStorage', 'navigator'],
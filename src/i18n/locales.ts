@@ -0,0 +1,45 @@
+/**
+ * Every language the extension speaks. UI resources are loaded from
+ * src/locales/<code>/, the language selector lists these in order, the
+ * model is asked to answer in the selected one and read-aloud picks a voice
+ * for it, so adding a language means
+ * adding an entry here plus its locale files (`npm run check:locales` lists
+ * anything still untranslated).
+ */
+
+export interface LocaleInfo {
+  code: string;
+  // English name, also used to name the language in prompts
+  name: string;
+  nativeName: string;
+  // BCP 47 tag for text-to-speech when no installed voice is chosen
+  speechLang: string;
+}
+
+export const LOCALES = [
+  { code: 'en', name: 'English', nativeName: 'English', speechLang: 'en-US' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', speechLang: 'hi-IN' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', speechLang: 'ta-IN' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', speechLang: 'bn-IN' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు', speechLang: 'te-IN' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', speechLang: 'mr-IN' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ', speechLang: 'kn-IN' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം', speechLang: 'ml-IN' }
+] as const satisfies readonly LocaleInfo[];
+
+export type LanguageCode = typeof LOCALES[number]['code'];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  LOCALES.some(locale => locale.code === value);
+
+// Unknown codes (e.g. from an old backup) fall back to the default language
+export const getLocale = (code: string): LocaleInfo =>
+  LOCALES.find(locale => locale.code === code) ?? LOCALES[0];
+
+// "Hindi (हिन्दी)": the native name helps the model pick the right script
+export const promptLanguageName = (code: string): string => {
+  const { name, nativeName } = getLocale(code);
+  return name === nativeName ? name : `${name} (${nativeName})`;
+};
@@ -0,0 +1,18 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import { I18nextProvider } from 'react-i18next'
+import i18n from '../i18n'
+import { LanguageProvider } from '../contexts/LanguageContext'
+import Options from '../components/Options'
+import '../index.css'
+import './options.css'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <I18nextProvider i18n={i18n}>
+      <LanguageProvider>
+        <Options />
+      </LanguageProvider>
+    </I18nextProvider>
+  </StrictMode>,
+)
@@ -0,0 +1,200 @@
+/// <reference types="chrome"/>
+import { storageService } from './StorageService';
+import { DEFAULT_SETTINGS, settingsService } from './SettingsService';
+import type { ExtensionSettings } from './SettingsService';
+import { DEFAULT_CATEGORY_WEIGHTS, MAX_CATEGORY_WEIGHT } from '../utils/riskScoring';
+import { validateSchema } from '../utils/structuredOutput';
+import type { SchemaNode } from '../utils/structuredOutput';
+import { FINDING_CATEGORIES } from '../types/analysis';
+import { isLanguageCode } from '../i18n/locales';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../types/backup';
+import type { BackupBundle, BackupSettings, ImportOptions, ImportSummary } from '../types/backup';
+import type { WatchedPage } from '../types/monitor';
+
+// Never exported, and never overwritten by an import
+const SECRET_SETTINGS = ['geminiApiKey', 'openAIApiKey'] as const;
+
+const SEVERITY: SchemaNode = { type: 'string', enum: ['low', 'medium', 'high'] };
+const STRINGS: SchemaNode = { type: 'array', items: { type: 'string' } };
+
+// The fields the history view reads without checking, so an entry missing them can't be opened
+const RESULT_SCHEMA: SchemaNode = {
+    type: 'object',
+    fields: {
+        summary: { type: 'string' },
+        riskLevel: SEVERITY,
+        keyPoints: STRINGS,
+        redFlags: STRINGS,
+        // Results from before findings existed have none; they're imported with an empty list
+        findings: {
+            type: 'array',
+            optional: true,
+            items: {
+                type: 'object',
+                fields: {
+                    category: { type: 'string', enum: FINDING_CATEGORIES },
+                    severity: SEVERITY,
+                    title: { type: 'string' },
+                    explanation: { type: 'string' },
+                    quote: { type: 'string' }
+                }
+            }
+        },
+        timestamp: { type: 'number' }
+    }
+};
+
+const BACKUP_SCHEMA: SchemaNode = {
+    type: 'object',
+    fields: {
+        format: { type: 'string', enum: [BACKUP_FORMAT] },
+        version: { type: 'number' },
+        exportedAt: { type: 'number' },
+        settings: { type: 'object' },
+        language: { type: 'string', optional: true },
+        history: {
+            type: 'array',
+            items: {
+                type: 'object',
+                fields: {
+                    url: { type: 'string' },
+                    title: { type: 'string' },
+                    language: { type: 'string' },
+                    timestamp: { type: 'number' },
+                    riskLevel: SEVERITY,
+                    result: RESULT_SCHEMA
+                }
+            }
+        },
+        watches: {
+            type: 'array',
+            items: {
+                type: 'object',
+                fields: {
+                    url: { type: 'string' },
+                    title: { type: 'string' },
+                    addedAt: { type: 'number' }
+                }
+            }
+        }
+    }
+};
+
+// Only known categories, with weights in the range the options page allows
+const sanitizeWeights = (raw: Record<string, unknown>) => {
+    const weights: Record<string, number> = {};
+    for (const [category, weight] of Object.entries(raw)) {
+        if (!(category in DEFAULT_CATEGORY_WEIGHTS) || typeof weight !== 'number' || !Number.isFinite(weight)) continue;
+        weights[category] = Math.min(MAX_CATEGORY_WEIGHT, Math.max(0, weight));
+    }
+    return weights;
+};
+
+// Language code to voice name; anything else can't be a voice choice
+const sanitizeVoices = (raw: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(raw).filter(([, voice]) => typeof voice === 'string'));
+
+// Keeps only known settings whose type matches the default, minus secrets.
+// Object-valued settings are checked entry by entry.
+const sanitizeSettings = (raw: Record<string, unknown>): Partial<BackupSettings> => {
+    const settings: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        if (!(key in DEFAULT_SETTINGS) || (SECRET_SETTINGS as readonly string[]).includes(key)) continue;
+        if (typeof value !== typeof DEFAULT_SETTINGS[key as keyof ExtensionSettings] || value === null) continue;
+        if (typeof value === 'number' && !Number.isFinite(value)) continue;
+        settings[key] = value;
+    }
+
+    if (settings.categoryWeights) {
+        settings.categoryWeights = sanitizeWeights(settings.categoryWeights as Record<string, unknown>);
+    }
+    if (settings.speechVoices) {
+        settings.speechVoices = sanitizeVoices(settings.speechVoices as Record<string, unknown>);
+    }
+    return settings as Partial<BackupSettings>;
+};
+
+class BackupService {
+    async createBackup(): Promise<BackupBundle> {
+        const settings = await settingsService.getSettings();
+        const { language } = await chrome.storage.sync.get('language');
+        const history = await storageService.getHistory();
+
+        return {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            exportedAt: Date.now(),
+            settings: sanitizeSettings(settings as unknown as Record<string, unknown>),
+            language: typeof language === 'string' ? language : undefined,
+            history: history.map(({ id: _id, ...entry }) => entry),
+            watches: await storageService.getWatches()
+        };
+    }
+
+    // Throws with every problem found, so a bad file is rejected before anything is written
+    parseBackup(raw: unknown): BackupBundle {
+        const errors = validateSchema(raw, BACKUP_SCHEMA);
+        if (errors.length > 0) {
+            throw new Error(`Not a valid backup file: ${errors.slice(0, 3).join('; ')}`);
+        }
+
+        const bundle = raw as BackupBundle;
+        if (bundle.version > BACKUP_VERSION) {
+            throw new Error('This backup was made by a newer version of the extension. Update it and try again.');
+        }
+        return bundle;
+    }
+
+    async importBackup(bundle: BackupBundle, options: ImportOptions): Promise<ImportSummary> {
+        const historyAdded = await storageService.importHistory(
+            bundle.history.map(({ url, title, language, timestamp, riskLevel, result, synced }) =>
+                ({ url, title, language, timestamp, riskLevel, result: { ...result, findings: result.findings ?? [] }, synced }))
+        );
+
+        let watchesAdded = 0;
+        let watchesMerged = 0;
+        for (const watch of bundle.watches) {
+            const local = await storageService.getWatch(watch.url);
+            if (!local) {
+                // Checks start afresh here; the backup's error was about the other device
+                const { lastError: _lastError, ...imported } = watch;
+                await storageService.saveWatch(imported);
+                watchesAdded++;
+                continue;
+            }
+            await storageService.saveWatch(this.mergeWatch(local, watch));
+            watchesMerged++;
+        }
+
+        let settingsApplied = false;
+        if (options.settings === 'use-backup') {
+            await settingsService.updateSettings(sanitizeSettings(bundle.settings as Record<string, unknown>));
+            // A language this version doesn't ship would leave the interface untranslated
+            if (isLanguageCode(bundle.language)) {
+                await chrome.storage.sync.set({ language: bundle.language });
+            }
+            settingsApplied = true;
+        }
+
+        return {
+            historyAdded,
+            historySkipped: bundle.history.length - historyAdded,
+            watchesAdded,
+            watchesMerged,
+            settingsApplied
+        };
+    }
+
+    // The copy checked most recently knows the current content hash
+    private mergeWatch(local: WatchedPage, imported: WatchedPage): WatchedPage {
+        const newer = (imported.lastCheckedAt ?? 0) > (local.lastCheckedAt ?? 0) ? imported : local;
+        return {
+            ...newer,
+            title: local.title || imported.title,
+            addedAt: Math.min(local.addedAt, imported.addedAt),
+            lastError: local.lastError
+        };
+    }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,100 @@
+/// <reference types="chrome"/>
+import type { HistoryEntry } from '../types/history';
+import type { SyncedSummary } from '../types/backup';
+
+export const SYNC_KEY_PREFIX = 'historySync.';
+
+// chrome.storage.sync allows 8192 bytes per item, key included
+const MAX_PAGE_BYTES = 8000;
+
+// Five pages (~40 KB) leave most of the 100 KB sync quota for settings
+const MAX_PAGES = 5;
+
+const MAX_SUMMARY_LENGTH = 280;
+
+const byteLength = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+const compact = (entry: HistoryEntry): SyncedSummary => ({
+    u: entry.url,
+    t: entry.title,
+    l: entry.language,
+    ts: entry.timestamp,
+    r: entry.riskLevel,
+    s: entry.result.riskScore?.score,
+    m: entry.result.summary.length > MAX_SUMMARY_LENGTH
+        ? `${entry.result.summary.substring(0, MAX_SUMMARY_LENGTH - 1)}…`
+        : entry.result.summary
+});
+
+const isSyncedSummary = (value: unknown): value is SyncedSummary => {
+    const raw = value as Partial<SyncedSummary>;
+    return typeof raw === 'object' && raw !== null &&
+        typeof raw.u === 'string' && typeof raw.l === 'string' && typeof raw.ts === 'number' &&
+        typeof raw.m === 'string' && (raw.r === 'low' || raw.r === 'medium' || raw.r === 'high');
+};
+
+/**
+ * Keeps the newest history summaries in chrome.storage.sync, split into
+ * pages that each fit the per-item quota, so other signed-in devices can
+ * list them. Full results stay in the local history only.
+ */
+class HistorySync {
+    // `entries` newest first; as many as fit the budget are kept
+    async push(entries: HistoryEntry[]): Promise<number> {
+        const pages: SyncedSummary[][] = [[]];
+        let pageBytes = 2; // The surrounding []
+        let count = 0;
+
+        for (const entry of entries) {
+            const summary = compact(entry);
+            const bytes = byteLength(summary) + 1;
+            if (pageBytes + bytes > MAX_PAGE_BYTES - SYNC_KEY_PREFIX.length - 2) {
+                if (pages.length === MAX_PAGES) break;
+                pages.push([]);
+                pageBytes = 2;
+            }
+            pages[pages.length - 1].push(summary);
+            pageBytes += bytes;
+            count++;
+        }
+
+        await chrome.storage.sync.set(Object.fromEntries(pages.map((page, index) => [`${SYNC_KEY_PREFIX}${index}`, page])));
+
+        // Drop pages left over from a larger earlier push
+        const stale = (await this.keys()).filter(key => Number(key.substring(SYNC_KEY_PREFIX.length)) >= pages.length);
+        if (stale.length > 0) await chrome.storage.sync.remove(stale);
+
+        return count;
+    }
+
+    // Synced summaries as compact history entries, ready for StorageService.importHistory
+    async pull(): Promise<Omit<HistoryEntry, 'id' | 'domain'>[]> {
+        const stored = await chrome.storage.sync.get(await this.keys());
+
+        return Object.values(stored)
+            .flatMap(page => Array.isArray(page) ? page.filter(isSyncedSummary) : [])
+            .map(summary => ({
+                url: summary.u,
+                title: summary.t ?? '',
+                language: summary.l,
+                timestamp: summary.ts,
+                riskLevel: summary.r,
+                synced: true,
+                result: {
+                    summary: summary.m,
+                    riskLevel: summary.r,
+                    keyPoints: [],
+                    redFlags: [],
+                    findings: [],
+                    timestamp: summary.ts
+                }
+            }));
+    }
+
+    private async keys(): Promise<string[]> {
+        const all = await chrome.storage.sync.get(null);
+        return Object.keys(all).filter(key => key.startsWith(SYNC_KEY_PREFIX));
+    }
+}
+
+export const historySync = new HistorySync();
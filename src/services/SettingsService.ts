@@ -0,0 +1,73 @@
+import type { ProviderId } from './providers/AnalysisProvider';
+import { DEFAULT_CATEGORY_WEIGHTS } from '../utils/riskScoring';
+import type { CategoryWeights } from '../utils/riskScoring';
+
+export interface ExtensionSettings {
+    provider: ProviderId;
+    geminiApiKey: string;
+    geminiModel: string;
+    geminiBaseUrl: string;
+    openAIApiKey: string;
+    openAIModel: string;
+    openAIBaseUrl: string;
+    temperature: number;
+    maxOutputTokens: number;
+    monitorIntervalHours: number;
+    showConsentBanner: boolean;
+    categoryWeights: CategoryWeights;
+    cacheTtlHours: number;
+    cacheMaxEntries: number;
+    // Copies recent summaries into chrome.storage.sync for the user's other devices
+    syncHistory: boolean;
+    // Read-aloud playback rate, 1 being the voice's normal speed
+    speechRate: number;
+    // Chosen voice name per language code; languages without one use the best installed voice
+    speechVoices: Record<string, string>;
+}
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+    provider: 'gemini',
+    geminiApiKey: '',
+    geminiModel: 'gemini-1.5-flash',
+    geminiBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    openAIApiKey: '',
+    openAIModel: 'llama3.1',
+    openAIBaseUrl: 'http://localhost:11434/v1',
+    temperature: 0.3,
+    maxOutputTokens: 2048,
+    monitorIntervalHours: 24,
+    showConsentBanner: true,
+    categoryWeights: DEFAULT_CATEGORY_WEIGHTS,
+    cacheTtlHours: 168,
+    cacheMaxEntries: 200,
+    syncHistory: false,
+    speechRate: 1,
+    speechVoices: {}
+};
+
+// Persists user settings in chrome.storage.sync under a single key
+class SettingsService {
+    private storageKey = 'settings';
+
+    async getSettings(): Promise<ExtensionSettings> {
+        const stored = await chrome.storage.sync.get([this.storageKey, 'geminiApiKey']);
+        const settings: ExtensionSettings = { ...DEFAULT_SETTINGS, ...(stored[this.storageKey] || {}) };
+        // Weights saved before a category existed keep that category's default
+        settings.categoryWeights = { ...DEFAULT_CATEGORY_WEIGHTS, ...settings.categoryWeights };
+
+        // Older installs kept the key at the top level of sync storage
+        if (!settings.geminiApiKey && typeof stored.geminiApiKey === 'string') {
+            settings.geminiApiKey = stored.geminiApiKey;
+        }
+
+        return settings;
+    }
+
+    async updateSettings(changes: Partial<ExtensionSettings>): Promise<ExtensionSettings> {
+        const settings = { ...(await this.getSettings()), ...changes };
+        await chrome.storage.sync.set({ [this.storageKey]: settings });
+        return settings;
+    }
+}
+
+export const settingsService = new SettingsService();
@@ -0,0 +1,154 @@
+/// <reference types="chrome"/>
+import { getLocale } from '../i18n/locales';
+
+export interface SpeechSegment {
+    text: string;
+    // Set for segments that read out a finding, so playback can skip between them
+    findingIndex?: number;
+}
+
+export type PlaybackState = 'idle' | 'playing' | 'paused';
+
+export interface PlaybackStatus {
+    state: PlaybackState;
+    // Segment being read, or the one playback stopped at
+    index: number;
+    total: number;
+    error?: string;
+}
+
+export interface SpeechOptions {
+    language: string;
+    voiceName?: string;
+    rate: number;
+}
+
+// Speeds offered in the player and in settings; 1 is the voice's normal pace
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+type StatusListener = (status: PlaybackStatus) => void;
+
+const primaryLanguage = (tag: string | undefined) => (tag ?? '').toLowerCase().split(/[-_]/)[0];
+
+export async function getVoices(): Promise<chrome.tts.TtsVoice[]> {
+    return chrome.tts.getVoices();
+}
+
+// Installed voices for a language; a region-specific match (hi-IN) sorts before other regions
+export function voicesFor(voices: chrome.tts.TtsVoice[], language: string): chrome.tts.TtsVoice[] {
+    const speechLang = getLocale(language).speechLang.toLowerCase();
+    return voices
+        .filter(voice => voice.voiceName && primaryLanguage(voice.lang) === language)
+        .sort((a, b) => Number(b.lang?.toLowerCase() === speechLang) - Number(a.lang?.toLowerCase() === speechLang));
+}
+
+/**
+ * The user's choice for the language if it can be used right now, otherwise
+ * the best installed voice. Remote voices need the network, so offline only
+ * local ones qualify. Returns null when nothing can speak the language.
+ */
+export function pickVoice(
+    voices: chrome.tts.TtsVoice[],
+    language: string,
+    preferred: string | undefined,
+    online: boolean
+): chrome.tts.TtsVoice | null {
+    const usable = voicesFor(voices, language).filter(voice => online || !voice.remote);
+    const chosen = usable.find(voice => voice.voiceName === preferred);
+    if (chosen) return chosen;
+
+    // Local voices start faster and keep working if the connection drops
+    return usable.find(voice => !voice.remote) ?? usable[0] ?? null;
+}
+
+/**
+ * Reads a list of segments one utterance at a time through chrome.tts, so
+ * playback can pause, resume and jump between segments. Events from an
+ * utterance that was replaced are ignored.
+ */
+class SpeechPlayer {
+    private segments: SpeechSegment[] = [];
+    private options: SpeechOptions = { language: 'en', rate: 1 };
+    private status: PlaybackStatus = { state: 'idle', index: 0, total: 0 };
+    private utteranceId = 0;
+    private listeners: StatusListener[] = [];
+
+    play(segments: SpeechSegment[], options: SpeechOptions, from = 0) {
+        this.segments = segments;
+        this.options = options;
+        this.speak(from);
+    }
+
+    pause() {
+        if (this.status.state !== 'playing') return;
+        chrome.tts.pause();
+        this.update({ state: 'paused' });
+    }
+
+    resume() {
+        if (this.status.state !== 'paused') return;
+        chrome.tts.resume();
+        this.update({ state: 'playing' });
+    }
+
+    // Jumps to a segment; keeps playing if playing, otherwise starts there
+    skipTo(index: number) {
+        if (index < 0 || index >= this.segments.length) return;
+        this.speak(index);
+    }
+
+    // Rate changes apply from the next segment, without cutting the current one off
+    setRate(rate: number) {
+        this.options = { ...this.options, rate };
+    }
+
+    stop() {
+        this.utteranceId++;
+        chrome.tts.stop();
+        this.update({ state: 'idle' });
+    }
+
+    getStatus(): PlaybackStatus {
+        return this.status;
+    }
+
+    subscribe(listener: StatusListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(other => other !== listener);
+        };
+    }
+
+    private speak(index: number) {
+        const id = ++this.utteranceId;
+        // stop() also lifts a pause, which would otherwise hold back the new utterance
+        chrome.tts.stop();
+        this.update({ state: 'playing', index, total: this.segments.length, error: undefined });
+
+        chrome.tts.speak(this.segments[index].text, {
+            voiceName: this.options.voiceName,
+            lang: this.options.voiceName ? undefined : getLocale(this.options.language).speechLang,
+            rate: this.options.rate,
+            onEvent: event => {
+                if (id !== this.utteranceId) return;
+                if (event.type === 'end') {
+                    if (index + 1 < this.segments.length) this.speak(index + 1);
+                    else this.update({ state: 'idle', index: 0 });
+                } else if (event.type === 'error') {
+                    this.update({ state: 'idle', error: event.errorMessage ?? 'Speech failed' });
+                }
+            }
+        }, () => {
+            if (chrome.runtime.lastError && id === this.utteranceId) {
+                this.update({ state: 'idle', error: chrome.runtime.lastError.message ?? 'Speech failed' });
+            }
+        });
+    }
+
+    private update(changes: Partial<PlaybackStatus>) {
+        this.status = { ...this.status, ...changes };
+        this.listeners.forEach(listener => listener(this.status));
+    }
+}
+
+export const speechPlayer = new SpeechPlayer();
@@ -1,69 +1,426 @@
 import { openDB } from 'idb';
 import type { IDBPDatabase } from 'idb';
+import type { HistoryEntry, HistoryQuery, HistorySummary } from '../types/history';
+import type { WatchedPage } from '../types/monitor';
+import type { ChatThread } from '../types/chat';
+import type { AnalysisResult } from '../types/analysis';
+import type { TermsTranslation } from '../types/translation';
+import { hashText } from '../utils/hash';
+import { rescoreResult } from '../utils/riskScoring';
+import type { CategoryWeights } from '../utils/riskScoring';
+import { normalizeUrl } from '../utils/urlNormalize';
 
-interface CachedAnalysis {
+// A stored version of a page's terms text
+export interface TermsSnapshot {
+    id: number;
     url: string;
+    contentHash: string;
     content: string;
+    timestamp: number;
+}
+
+// Older versions beyond this are pruned per URL
+const MAX_SNAPSHOTS_PER_URL = 10;
+
+// Only the most recent chat messages are kept per URL
+const MAX_CHAT_MESSAGES = 50;
+
+// One analysis of a given text, in one language, from one prompt/model version
+export interface CachedAnalysis {
+    key: string;
+    contentHash: string;
+    language: string;
+    version: string;
+    result: AnalysisResult;
+    timestamp: number;
+    lastAccessed: number;
+}
+
+// The URL-keyed cache entries from before v6, read once to seed the history
+interface LegacyCachedAnalysis {
+    url: string;
     result: any;
     timestamp: number;
     language: string;
 }
 
+// Points a (normalized) URL at the text it served most recently
+interface CacheAlias {
+    url: string;
+    contentHash: string;
+    timestamp: number;
+}
+
+export interface CacheLookup {
+    // Looked up through the URL's alias when the text isn't known
+    url?: string;
+    content?: string;
+    language: string;
+    version: string;
+    maxAgeMs: number;
+    // Looks without counting as a use, so passive checks don't keep entries from eviction
+    peek?: boolean;
+}
+
+interface CachedTranslation extends TermsTranslation {
+    key: string;
+}
+
+const cacheKey = (contentHash: string, language: string, version: string) =>
+    `${contentHash}:${language}:${version}`;
+
+export const getDomain = (url: string): string => {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return url;
+    }
+};
+
 class StorageService {
     private dbName = 'terms-analyzer-cache';
-    private dbVersion = 1;
+    private dbVersion = 7;
     private db: IDBPDatabase | null = null;
 
     async init() {
         this.db = await openDB(this.dbName, this.dbVersion, {
-            upgrade(db: IDBPDatabase) {
+            async upgrade(db: IDBPDatabase, oldVersion, _newVersion, transaction) {
                 if (!db.objectStoreNames.contains('analyses')) {
                     db.createObjectStore('analyses', { keyPath: 'url' });
                 }
+
+                // v2: long-lived history of every analysis run
+                if (oldVersion < 2) {
+                    const history = db.createObjectStore('history', { keyPath: 'id', autoIncrement: true });
+                    history.createIndex('domain', 'domain');
+                    history.createIndex('timestamp', 'timestamp');
+                    history.createIndex('riskLevel', 'riskLevel');
+
+                    // Seed the history with whatever the 24h cache still holds
+                    const cached: LegacyCachedAnalysis[] = await transaction.objectStore('analyses').getAll();
+                    for (const entry of cached) {
+                        await history.add({
+                            url: entry.url,
+                            domain: getDomain(entry.url),
+                            title: '',
+                            language: entry.language,
+                            timestamp: entry.timestamp,
+                            riskLevel: entry.result?.riskLevel ?? 'medium',
+                            result: entry.result
+                        });
+                    }
+                }
+
+                // v3: versioned snapshots of each page's terms for change tracking
+                if (oldVersion < 3) {
+                    const snapshots = db.createObjectStore('snapshots', { keyPath: 'id', autoIncrement: true });
+                    snapshots.createIndex('url', 'url');
+                }
+
+                // v4: pages watched for changes by the background monitor
+                if (oldVersion < 4) {
+                    db.createObjectStore('watches', { keyPath: 'url' });
+                }
+
+                // v5: Q&A conversations about a page's terms
+                if (oldVersion < 5) {
+                    db.createObjectStore('chats', { keyPath: 'url' });
+                }
+
+                // v6: analyses keyed by text hash, language and version, with URL aliases.
+                // The old URL-keyed entries expired within a day anyway, so they are dropped.
+                if (oldVersion < 6) {
+                    db.deleteObjectStore('analyses');
+                    const analyses = db.createObjectStore('analyses', { keyPath: 'key' });
+                    analyses.createIndex('contentHash', 'contentHash');
+                    analyses.createIndex('lastAccessed', 'lastAccessed');
+                    db.createObjectStore('aliases', { keyPath: 'url' });
+                }
+
+                // v7: translations of a text, keyed like analyses
+                if (oldVersion < 7) {
+                    db.createObjectStore('translations', { keyPath: 'key' });
+                }
             },
         });
     }
 
-    async cacheAnalysis(url: string, content: string, result: any, language: string) {
+    async cacheAnalysis(url: string | undefined, content: string, result: AnalysisResult, language: string, version: string) {
         if (!this.db) await this.init();
 
-        const cacheEntry: CachedAnalysis = {
-            url,
-            content,
+        const contentHash = await hashText(content);
+        const now = Date.now();
+        const entry: CachedAnalysis = {
+            key: cacheKey(contentHash, language, version),
+            contentHash,
+            language,
+            version,
             result,
-            timestamp: Date.now(),
-            language
+            timestamp: now,
+            lastAccessed: now
         };
 
-        await this.db!.put('analyses', cacheEntry);
+        await this.db!.put('analyses', entry);
+        if (url) await this.setAlias(url, contentHash);
     }
 
-    async getCachedAnalysis(url: string, language: string): Promise<CachedAnalysis | null> {
+    /**
+     * Finds a fresh analysis of the same text, whichever URL it came from.
+     * A hit by text also points the URL at it, so mirrors and tracking
+     * variants resolve by URL next time.
+     */
+    async getCachedAnalysis(lookup: CacheLookup): Promise<CachedAnalysis | null> {
         if (!this.db) await this.init();
 
-        const entry = await this.db!.get('analyses', url);
+        const contentHash = lookup.content !== undefined
+            ? await hashText(lookup.content)
+            : lookup.url ? (await this.db!.get('aliases', normalizeUrl(lookup.url)) as CacheAlias | undefined)?.contentHash : undefined;
+        if (!contentHash) return null;
 
+        const entry: CachedAnalysis | undefined = await this.db!.get('analyses', cacheKey(contentHash, lookup.language, lookup.version));
         if (!entry) return null;
-        if (entry.language !== language) return null;
+        if (Date.now() - entry.timestamp > lookup.maxAgeMs) return null;
 
-        // Cache is valid for 24 hours
-        const cacheAge = Date.now() - entry.timestamp;
-        if (cacheAge > 24 * 60 * 60 * 1000) return null;
+        // Recently used entries survive eviction longest
+        if (!lookup.peek) await this.db!.put('analyses', { ...entry, lastAccessed: Date.now() });
+        if (lookup.url && lookup.content !== undefined) await this.setAlias(lookup.url, contentHash);
 
         return entry;
     }
 
-    async clearOldCache() {
+    private async setAlias(url: string, contentHash: string) {
+        const alias: CacheAlias = { url: normalizeUrl(url), contentHash, timestamp: Date.now() };
+        await this.db!.put('aliases', alias);
+    }
+
+    // Without a URL everything goes; with one, every analysis of the text it points at
+    async clearCache(url?: string) {
         if (!this.db) await this.init();
 
-        const all = await this.db!.getAll('analyses');
-        const day = 24 * 60 * 60 * 1000;
+        if (!url) {
+            await this.db!.clear('analyses');
+            await this.db!.clear('aliases');
+            await this.db!.clear('translations');
+            return;
+        }
+
+        const key = normalizeUrl(url);
+        const alias: CacheAlias | undefined = await this.db!.get('aliases', key);
+        await this.db!.delete('aliases', key);
+        if (!alias) return;
+
+        const entries: CachedAnalysis[] = await this.db!.getAllFromIndex('analyses', 'contentHash', alias.contentHash);
+        for (const entry of entries) {
+            await this.db!.delete('analyses', entry.key);
+        }
+    }
+
+    // Drops expired entries, then the least recently used beyond maxEntries, then orphaned aliases.
+    // Expired translations go too; they are few and re-created on demand.
+    async pruneCache(maxAgeMs: number, maxEntries: number): Promise<number> {
+        if (!this.db) await this.init();
 
-        for (const entry of all) {
-            if (Date.now() - entry.timestamp > day) {
-                await this.db!.delete('analyses', entry.url);
+        const now = Date.now();
+        const entries: CachedAnalysis[] = await this.db!.getAllFromIndex('analyses', 'lastAccessed');
+        const fresh = entries.filter(entry => now - entry.timestamp <= maxAgeMs);
+        const expired = entries.filter(entry => now - entry.timestamp > maxAgeMs);
+        // The index returns oldest access first
+        const evicted = fresh.slice(0, Math.max(0, fresh.length - maxEntries));
+
+        for (const entry of [...expired, ...evicted]) {
+            await this.db!.delete('analyses', entry.key);
+        }
+
+        const translations: CachedTranslation[] = await this.db!.getAll('translations');
+        for (const translation of translations) {
+            if (now - translation.timestamp > maxAgeMs) {
+                await this.db!.delete('translations', translation.key);
+            }
+        }
+
+        const kept = new Set(fresh.slice(evicted.length).map(entry => entry.contentHash));
+        const aliases: CacheAlias[] = await this.db!.getAll('aliases');
+        for (const alias of aliases) {
+            if (!kept.has(alias.contentHash)) {
+                await this.db!.delete('aliases', alias.url);
             }
         }
+
+        return expired.length + evicted.length;
+    }
+
+    async getTranslation(contentHash: string, language: string, version: string): Promise<TermsTranslation | null> {
+        if (!this.db) await this.init();
+
+        const entry: CachedTranslation | undefined = await this.db!.get('translations', cacheKey(contentHash, language, version));
+        if (!entry) return null;
+
+        const { key: _key, ...translation } = entry;
+        return translation;
+    }
+
+    async saveTranslation(translation: TermsTranslation, version: string) {
+        if (!this.db) await this.init();
+
+        const entry: CachedTranslation = { ...translation, key: cacheKey(translation.contentHash, translation.language, version) };
+        await this.db!.put('translations', entry);
+    }
+
+    async addHistoryEntry(entry: Omit<HistoryEntry, 'id' | 'domain'>): Promise<number> {
+        if (!this.db) await this.init();
+
+        return await this.db!.add('history', { ...entry, domain: getDomain(entry.url) }) as number;
+    }
+
+    // Adds entries not already present (same URL, language and time); returns how many were new
+    async importHistory(entries: Omit<HistoryEntry, 'id' | 'domain'>[]): Promise<number> {
+        if (!this.db) await this.init();
+
+        const existing: HistoryEntry[] = await this.db!.getAll('history');
+        const seen = new Set(existing.map(entry => `${entry.url}|${entry.language}|${entry.timestamp}`));
+        let added = 0;
+
+        for (const entry of entries) {
+            const key = `${entry.url}|${entry.language}|${entry.timestamp}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            await this.addHistoryEntry(entry);
+            added++;
+        }
+
+        return added;
+    }
+
+    // Newest first; uses the riskLevel index when filtering by risk
+    async getHistory(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+        if (!this.db) await this.init();
+
+        const entries: HistoryEntry[] = query.riskLevel
+            ? await this.db!.getAllFromIndex('history', 'riskLevel', query.riskLevel)
+            : await this.db!.getAllFromIndex('history', 'timestamp');
+
+        const search = query.search?.trim().toLowerCase();
+        const matches = entries
+            .filter(entry => !search ||
+                entry.domain.toLowerCase().includes(search) ||
+                entry.title.toLowerCase().includes(search))
+            .sort((a, b) => b.timestamp - a.timestamp);
+
+        return query.limit ? matches.slice(0, query.limit) : matches;
+    }
+
+    /**
+     * List rows without the stored results, newest first. Risk levels are
+     * worked out with the given weights, so filtering matches what's shown,
+     * and reading stops once `limit` rows matched.
+     */
+    async getHistorySummaries(query: HistoryQuery, weights: CategoryWeights): Promise<HistorySummary[]> {
+        if (!this.db) await this.init();
+
+        const search = query.search?.trim().toLowerCase();
+        const summaries: HistorySummary[] = [];
+        let cursor = await this.db!.transaction('history').store.index('timestamp').openCursor(null, 'prev');
+
+        while (cursor && !(query.limit && summaries.length >= query.limit)) {
+            const { result, ...entry } = cursor.value as HistoryEntry;
+            const matchesSearch = !search ||
+                entry.domain.toLowerCase().includes(search) ||
+                entry.title.toLowerCase().includes(search);
+
+            if (matchesSearch) {
+                const riskLevel = rescoreResult(result, weights).riskLevel;
+                if (!query.riskLevel || riskLevel === query.riskLevel) {
+                    summaries.push({ ...entry, riskLevel });
+                }
+            }
+            cursor = await cursor.continue();
+        }
+
+        return summaries;
+    }
+
+    async getHistoryEntry(id: number): Promise<HistoryEntry | null> {
+        if (!this.db) await this.init();
+
+        return (await this.db!.get('history', id)) ?? null;
+    }
+
+    async deleteHistoryEntry(id: number) {
+        if (!this.db) await this.init();
+
+        await this.db!.delete('history', id);
+    }
+
+    async getLatestSnapshot(url: string): Promise<TermsSnapshot | null> {
+        if (!this.db) await this.init();
+
+        const snapshots: TermsSnapshot[] = await this.db!.getAllFromIndex('snapshots', 'url', url);
+        return snapshots.sort((a, b) => b.timestamp - a.timestamp)[0] ?? null;
+    }
+
+    // Stores the text as a new version unless it matches the latest one
+    async saveSnapshot(url: string, content: string): Promise<TermsSnapshot> {
+        if (!this.db) await this.init();
+
+        const contentHash = await hashText(content);
+        const latest = await this.getLatestSnapshot(url);
+        if (latest && latest.contentHash === contentHash) return latest;
+
+        const snapshot = { url, contentHash, content, timestamp: Date.now() };
+        const id = await this.db!.add('snapshots', snapshot) as number;
+
+        const snapshots: TermsSnapshot[] = await this.db!.getAllFromIndex('snapshots', 'url', url);
+        const stale = snapshots.sort((a, b) => b.timestamp - a.timestamp).slice(MAX_SNAPSHOTS_PER_URL);
+        for (const old of stale) {
+            await this.db!.delete('snapshots', old.id);
+        }
+
+        return { ...snapshot, id };
+    }
+
+    async getWatches(): Promise<WatchedPage[]> {
+        if (!this.db) await this.init();
+
+        return await this.db!.getAll('watches');
+    }
+
+    async getWatch(url: string): Promise<WatchedPage | null> {
+        if (!this.db) await this.init();
+
+        return (await this.db!.get('watches', url)) ?? null;
+    }
+
+    async saveWatch(watch: WatchedPage) {
+        if (!this.db) await this.init();
+
+        await this.db!.put('watches', watch);
+    }
+
+    async deleteWatch(url: string) {
+        if (!this.db) await this.init();
+
+        await this.db!.delete('watches', url);
+    }
+
+    async getChat(url: string): Promise<ChatThread | null> {
+        if (!this.db) await this.init();
+
+        return (await this.db!.get('chats', url)) ?? null;
+    }
+
+    async saveChat(thread: ChatThread) {
+        if (!this.db) await this.init();
+
+        await this.db!.put('chats', {
+            ...thread,
+            messages: thread.messages.slice(-MAX_CHAT_MESSAGES)
+        });
+    }
+
+    async deleteChat(url: string) {
+        if (!this.db) await this.init();
+
+        await this.db!.delete('chats', url);
     }
 }
 
@@ -0,0 +1,73 @@
+/// <reference types="chrome"/>
+import { ANALYSIS_PORT_NAME } from '../types/stream';
+import type { AnalysisPreview, AnalysisStreamEvent, AnalysisStreamRequest } from '../types/stream';
+import type { AnalysisResult } from '../types/analysis';
+import { AnalysisError } from '../types/errors';
+
+export type AnalysisStreamStart = Omit<Extract<AnalysisStreamRequest, { type: 'start' }>, 'type'>;
+
+export interface AnalysisStreamHandlers {
+  onProgress?: (chunk: number, totalChunks: number) => void;
+  onPreview?: (preview: AnalysisPreview) => void;
+}
+
+export interface AnalysisStream {
+  // Resolves with null when the analysis was cancelled
+  result: Promise<AnalysisResult | null>;
+  cancel(): void;
+}
+
+/**
+ * Runs an analysis in the background over a dedicated port, reporting
+ * progress and partial results as they arrive.
+ */
+export function streamAnalysis(request: AnalysisStreamStart, handlers: AnalysisStreamHandlers = {}): AnalysisStream {
+  const port = chrome.runtime.connect({ name: ANALYSIS_PORT_NAME });
+  let settled = false;
+
+  const result = new Promise<AnalysisResult | null>((resolve, reject) => {
+    const finish = (settle: () => void) => {
+      settled = true;
+      settle();
+      port.disconnect();
+    };
+
+    port.onMessage.addListener((event: AnalysisStreamEvent) => {
+      switch (event.type) {
+        case 'progress':
+          handlers.onProgress?.(event.chunk, event.totalChunks);
+          break;
+        case 'partial':
+          handlers.onPreview?.(event.preview);
+          break;
+        case 'done':
+          finish(() => resolve(event.result));
+          break;
+        case 'cancelled':
+          finish(() => resolve(null));
+          break;
+        case 'error':
+          finish(() => reject(event.code ? new AnalysisError(event.code, event.error) : new Error(event.error)));
+          break;
+      }
+    });
+
+    // The service worker went away before answering
+    port.onDisconnect.addListener(() => {
+      if (!settled) {
+        settled = true;
+        reject(new Error('Lost connection to the analyzer. Please try again.'));
+      }
+    });
+  });
+
+  const start: AnalysisStreamRequest = { type: 'start', ...request };
+  port.postMessage(start);
+
+  return {
+    result,
+    cancel: () => {
+      if (!settled) port.postMessage({ type: 'cancel' } satisfies AnalysisStreamRequest);
+    }
+  };
+}
@@ -0,0 +1,245 @@
+/// <reference types="chrome"/>
+import type { ExtensionMessage, MessageAction, MessageMap, MessageResponse } from '../types/messages';
+import { AnalysisError, isAnalysisErrorCode } from '../types/errors';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+  // Allowed values of a string field
+  enum?: readonly string[];
+  // Rules for the fields of an object
+  fields?: Record<string, FieldRule>;
+}
+
+const DOCUMENT_TYPE: FieldRule = { type: 'string', enum: ['terms', 'privacy'], optional: true };
+
+const COMPARISON_SOURCE: FieldRule = {
+  type: 'object',
+  fields: {
+    historyId: { type: 'number', optional: true },
+    url: { type: 'string', optional: true }
+  }
+};
+
+// Runtime shape of each request; messages cross process boundaries so types alone can't be trusted
+const REQUEST_SCHEMAS: { [A in MessageAction]: Record<string, FieldRule> } = {
+  analyzeTerms: {
+    content: { type: 'string' },
+    language: { type: 'string' },
+    url: { type: 'string', optional: true },
+    title: { type: 'string', optional: true },
+    documentType: DOCUMENT_TYPE
+  },
+  analyzeOffline: {
+    content: { type: 'string' },
+    documentType: DOCUMENT_TYPE
+  },
+  getCachedAnalysis: {
+    url: { type: 'string' },
+    language: { type: 'string' },
+    content: { type: 'string', optional: true }
+  },
+  clearCache: {
+    url: { type: 'string', optional: true }
+  },
+  getHistory: {
+    search: { type: 'string', optional: true },
+    riskLevel: { type: 'string', enum: ['low', 'medium', 'high'], optional: true },
+    limit: { type: 'number', optional: true }
+  },
+  getHistoryEntry: {
+    id: { type: 'number' }
+  },
+  deleteHistoryEntry: {
+    id: { type: 'number' }
+  },
+  watchPage: {
+    url: { type: 'string' },
+    title: { type: 'string', optional: true }
+  },
+  unwatchPage: {
+    url: { type: 'string' }
+  },
+  getWatches: {},
+  checkWatches: {},
+  compareAnalyses: {
+    left: COMPARISON_SOURCE,
+    right: COMPARISON_SOURCE,
+    language: { type: 'string' }
+  },
+  getChat: {
+    url: { type: 'string' }
+  },
+  askQuestion: {
+    url: { type: 'string' },
+    content: { type: 'string' },
+    question: { type: 'string' },
+    language: { type: 'string' }
+  },
+  translateTerms: {
+    content: { type: 'string' },
+    language: { type: 'string' }
+  },
+  clearChat: {
+    url: { type: 'string' }
+  },
+  exportBackup: {},
+  importBackup: {
+    bundle: { type: 'object' },
+    settings: { type: 'string', enum: ['keep-local', 'use-backup'] }
+  },
+  fetchLinkedDocument: {
+    url: { type: 'string' }
+  },
+  updateBadge: {
+    url: { type: 'string' },
+    found: { type: 'boolean' },
+    location: { type: 'string', optional: true },
+    agreementPrompt: { type: 'boolean' },
+    tabId: { type: 'number', optional: true }
+  },
+  dismissConsentBanner: {},
+  detectTerms: {
+    language: { type: 'string', optional: true }
+  },
+  highlightFindings: {
+    findings: { type: 'array' },
+    focusIndex: { type: 'number', optional: true }
+  },
+  clearHighlights: {},
+  termsDetected: {
+    url: { type: 'string' },
+    found: { type: 'boolean' },
+    location: { type: 'string', optional: true },
+    agreementPrompt: { type: 'boolean' },
+    tabId: { type: 'number' }
+  }
+};
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+  if (type === 'array') return Array.isArray(value);
+  if (type === 'object') return typeof value === 'object' && value !== null && !Array.isArray(value);
+  return typeof value === type;
+};
+
+// First problem with the fields of an object, named by their dotted path
+const checkFields = (value: Record<string, unknown>, rules: Record<string, FieldRule>, path: string): string | null => {
+  for (const [field, rule] of Object.entries(rules)) {
+    const name = path ? `${path}.${field}` : field;
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!rule.optional) return `missing "${name}"`;
+      continue;
+    }
+    if (!matchesType(fieldValue, rule.type)) {
+      return `"${name}" must be ${rule.type}`;
+    }
+    if (rule.enum && !rule.enum.includes(fieldValue as string)) {
+      return `"${name}" must be one of ${rule.enum.join(', ')}`;
+    }
+    if (rule.fields) {
+      const problem = checkFields(fieldValue as Record<string, unknown>, rule.fields, name);
+      if (problem) return problem;
+    }
+  }
+  return null;
+};
+
+export type MessageValidation =
+  | { valid: true; message: ExtensionMessage }
+  | { valid: false; error: string };
+
+export function validateMessage(raw: unknown): MessageValidation {
+  if (typeof raw !== 'object' || raw === null) {
+    return { valid: false, error: 'Message must be an object' };
+  }
+
+  const action = (raw as { action?: unknown }).action;
+  if (typeof action !== 'string' || !(action in REQUEST_SCHEMAS)) {
+    return { valid: false, error: `Unknown action: ${String(action)}` };
+  }
+
+  const problem = checkFields(raw as Record<string, unknown>, REQUEST_SCHEMAS[action as MessageAction], '');
+  if (problem) {
+    return { valid: false, error: `${action}: ${problem}` };
+  }
+
+  return { valid: true, message: raw as ExtensionMessage };
+}
+
+export type MessageHandlers<A extends MessageAction> = {
+  [K in A]: (
+    message: ExtensionMessage<K>,
+    sender: chrome.runtime.MessageSender
+  ) => MessageMap[K]['response'] | Promise<MessageMap[K]['response']>;
+};
+
+/**
+ * Registers handlers for a subset of actions. Messages for other actions are
+ * left for other listeners; invalid requests get a failure envelope.
+ * Returns a function that removes the listener again.
+ */
+export function handleMessages<A extends MessageAction>(handlers: MessageHandlers<A>): () => void {
+  const listener = (raw: unknown, sender: chrome.runtime.MessageSender, sendResponse: (response: MessageResponse) => void) => {
+    const action = (raw as { action?: unknown })?.action;
+    if (typeof action !== 'string' || !Object.prototype.hasOwnProperty.call(handlers, action)) {
+      return false;
+    }
+
+    const validation = validateMessage(raw);
+    if (!validation.valid) {
+      console.error('Rejected message:', validation.error);
+      sendResponse({ success: false, error: validation.error });
+      return false;
+    }
+
+    const handler = handlers[action as A] as (
+      message: ExtensionMessage,
+      sender: chrome.runtime.MessageSender
+    ) => unknown;
+
+    Promise.resolve()
+      .then(() => handler(validation.message, sender))
+      .then(data => sendResponse({ success: true, data } as MessageResponse))
+      .catch(error => {
+        console.error(`Error handling ${action}:`, error);
+        sendResponse({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          // Lets the receiving side rebuild the typed error
+          code: error instanceof AnalysisError ? error.code : undefined
+        });
+      });
+
+    return true; // Keep the message channel open for async response
+  };
+
+  chrome.runtime.onMessage.addListener(listener);
+  return () => chrome.runtime.onMessage.removeListener(listener);
+}
+
+const unwrap = <A extends MessageAction>(action: A, response: MessageResponse<A> | undefined): MessageMap[A]['response'] => {
+  if (!response) {
+    throw new Error(`No response to ${action}`);
+  }
+  if (!response.success) {
+    throw isAnalysisErrorCode(response.code)
+      ? new AnalysisError(response.code, response.error)
+      : new Error(response.error);
+  }
+  return response.data;
+};
+
+// Sends a message to the background and resolves with its data, throwing on failure
+export async function sendMessage<A extends MessageAction>(message: ExtensionMessage<A>): Promise<MessageMap[A]['response']> {
+  const response: MessageResponse<A> | undefined = await chrome.runtime.sendMessage(message);
+  return unwrap(message.action, response);
+}
+
+// Sends a message to the content script of a tab
+export async function sendTabMessage<A extends MessageAction>(tabId: number, message: ExtensionMessage<A>): Promise<MessageMap[A]['response']> {
+  const response: MessageResponse<A> | undefined = await chrome.tabs.sendMessage(tabId, message);
+  return unwrap(message.action, response);
+}
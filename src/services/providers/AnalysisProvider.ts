@@ -0,0 +1,32 @@
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Marks where the document text starts inside an analysis prompt
+export const TERMS_TEXT_MARKER = 'Here are the terms to analyze:';
+
+export interface AnalysisOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Aborts the request in flight
+  signal?: AbortSignal;
+}
+
+// Receives the whole output generated so far each time more arrives
+export type StreamListener = (text: string) => void;
+
+// A backend that turns a prompt into the model's raw text output
+export interface AnalysisProvider {
+  readonly id: ProviderId;
+  analyze(prompt: string, options?: AnalysisOptions): Promise<string>;
+  // Same result as analyze, reported incrementally while it is generated
+  analyzeStream(prompt: string, onText: StreamListener, options?: AnalysisOptions): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
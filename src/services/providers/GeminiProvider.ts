@@ -0,0 +1,100 @@
+import { ProviderError } from './AnalysisProvider';
+import type { AnalysisOptions, AnalysisProvider, StreamListener } from './AnalysisProvider';
+import { readEventStream } from './eventStream';
+
+export interface GeminiConfig {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+}
+
+export class GeminiProvider implements AnalysisProvider {
+  readonly id = 'gemini' as const;
+  private config: GeminiConfig;
+
+  constructor(config: GeminiConfig) {
+    this.config = {
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  async analyze(prompt: string, options: AnalysisOptions = {}): Promise<string> {
+    const response = await this.request('generateContent', prompt, options);
+    const data = await response.json();
+
+    if (!data.candidates || !Array.isArray(data.candidates) || data.candidates.length === 0) {
+      console.error('No candidates in response:', data);
+      throw new ProviderError('No response generated by the API');
+    }
+
+    const candidate = data.candidates[0];
+    if (!candidate.content || !candidate.content.parts || !Array.isArray(candidate.content.parts)) {
+      console.error('Invalid candidate format:', candidate);
+      throw new ProviderError('Invalid response format from API');
+    }
+
+    const text = candidate.content.parts[0]?.text;
+    if (!text) {
+      console.error('No text in response parts:', candidate.content.parts);
+      throw new ProviderError('No text content in API response');
+    }
+
+    return text;
+  }
+
+  async analyzeStream(prompt: string, onText: StreamListener, options: AnalysisOptions = {}): Promise<string> {
+    const response = await this.request('streamGenerateContent?alt=sse', prompt, options);
+    let text = '';
+
+    // Each event carries the next piece of the candidate's text
+    await readEventStream(response, data => {
+      const parsed = JSON.parse(data);
+      const piece = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (typeof piece === 'string' && piece) {
+        text += piece;
+        onText(text);
+      }
+    });
+
+    if (!text) {
+      throw new ProviderError('No text content in API response');
+    }
+    return text;
+  }
+
+  private async request(method: string, prompt: string, options: AnalysisOptions): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/models/${this.config.model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.config.apiKey
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }],
+        generationConfig: {
+          temperature: options.temperature ?? 0.3,
+          topP: 0.8,
+          topK: 40,
+          maxOutputTokens: options.maxOutputTokens ?? 2048
+        }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Gemini API error response:', errorData);
+      throw new ProviderError(
+        `Gemini API Error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+}
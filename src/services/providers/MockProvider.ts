@@ -0,0 +1,126 @@
+import { TERMS_TEXT_MARKER } from './AnalysisProvider';
+import type { AnalysisOptions, AnalysisProvider, StreamListener } from './AnalysisProvider';
+import type { FindingCategory } from '../../types/analysis';
+import type { UserRightType } from '../../types/privacy';
+
+const RED_FLAG_PATTERNS: { pattern: string; category: FindingCategory }[] = [
+  { pattern: 'arbitration', category: 'arbitration' },
+  { pattern: 'class action', category: 'arbitration' },
+  { pattern: 'terminate', category: 'termination' },
+  { pattern: 'without notice', category: 'changes-to-terms' },
+  { pattern: 'liability', category: 'liability' },
+  { pattern: 'automatically renew', category: 'auto-renewal' },
+  { pattern: 'irrevocable', category: 'content-license' },
+  { pattern: 'sell', category: 'data-sharing' },
+  { pattern: 'third part', category: 'data-sharing' },
+  { pattern: 'governed by', category: 'jurisdiction' }
+];
+
+const PRACTICE_PATTERNS: Record<string, string[]> = {
+  dataCollected: ['we collect', 'information we collect', 'personal data'],
+  purposes: ['we use', 'to provide', 'to improve'],
+  retention: ['retain', 'retention', 'keep your'],
+  crossBorderTransfers: ['transfer', 'outside the'],
+  childrenData: ['children', 'under the age']
+};
+
+const RIGHT_PATTERNS: { pattern: string; right: UserRightType }[] = [
+  { pattern: 'access', right: 'access' },
+  { pattern: 'delet', right: 'deletion' },
+  { pattern: 'correct', right: 'correction' },
+  { pattern: 'portab', right: 'portability' },
+  { pattern: 'opt out', right: 'opt-out' },
+  { pattern: 'withdraw', right: 'withdraw-consent' }
+];
+
+// Pieces the mock output is streamed in, so partial results can be exercised
+const STREAM_PIECES = 4;
+
+// Offline provider for development and tests: builds a deterministic
+// analysis from the prompt's own text without any network access.
+export class MockProvider implements AnalysisProvider {
+  readonly id = 'mock' as const;
+
+  async analyze(prompt: string, _options?: AnalysisOptions): Promise<string> {
+    const markerIndex = prompt.lastIndexOf(TERMS_TEXT_MARKER);
+    const text = markerIndex >= 0 ? prompt.substring(markerIndex + TERMS_TEXT_MARKER.length) : prompt;
+
+    const sentences = text
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 20);
+
+    // Chat prompts get the first sentence sharing a word with the question
+    const question = prompt.match(/^Question: (.*)$/m);
+    if (question) {
+      const words = question[1].toLowerCase().split(/\W+/).filter(word => word.length > 3);
+      const match = sentences.find(sentence => words.some(word => sentence.toLowerCase().includes(word)));
+      return JSON.stringify({
+        answer: match ? `The terms say: ${match}` : 'The terms do not address this.',
+        addressed: Boolean(match),
+        quotes: match ? [match] : []
+      });
+    }
+
+    // Translation prompts get the section back, marked so the two columns can be told apart
+    if (prompt.includes('"translation"')) {
+      return JSON.stringify({ translation: `[mock translation] ${text.trim()}` });
+    }
+
+    const findings = sentences.flatMap(sentence => {
+      const match = RED_FLAG_PATTERNS.find(({ pattern }) => sentence.toLowerCase().includes(pattern));
+      return match ? [{
+        category: match.category,
+        severity: match.category === 'arbitration' || match.category === 'data-sharing' ? 'high' : 'medium',
+        title: `Mentions "${match.pattern}"`,
+        explanation: 'Flagged by the offline mock provider.',
+        quote: sentence
+      }] : [];
+    }).slice(0, 8);
+
+    const redFlags = findings.slice(0, 5).map(finding => finding.quote);
+    const keyPoints = sentences
+      .filter(sentence => !redFlags.includes(sentence))
+      .slice(0, 3);
+
+    return JSON.stringify({
+      summary: `Mock analysis of ${sentences.length} sentences.`,
+      keyPoints,
+      redFlags,
+      findings,
+      // Only privacy policy prompts ask for practices
+      ...(prompt.includes('"practices"') ? { practices: this.buildPractices(sentences) } : {})
+    });
+  }
+
+  async analyzeStream(prompt: string, onText: StreamListener, options?: AnalysisOptions): Promise<string> {
+    const text = await this.analyze(prompt, options);
+    const pieceLength = Math.ceil(text.length / STREAM_PIECES);
+
+    for (let end = pieceLength; end < text.length + pieceLength; end += pieceLength) {
+      if (options?.signal?.aborted) {
+        throw new DOMException('The request was aborted', 'AbortError');
+      }
+      onText(text.substring(0, end));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return text;
+  }
+
+  private buildPractices(sentences: string[]) {
+    const matching = (patterns: string[]) => sentences
+      .filter(sentence => patterns.some(pattern => sentence.toLowerCase().includes(pattern)))
+      .slice(0, 3);
+
+    return {
+      ...Object.fromEntries(Object.entries(PRACTICE_PATTERNS).map(([key, patterns]) => [key, matching(patterns)])),
+      sharing: matching(['share', 'third part', 'sell']).map(sentence => ({ recipient: sentence, purpose: '' })),
+      userRights: RIGHT_PATTERNS.flatMap(({ pattern, right }) => {
+        const sentence = sentences.find(candidate =>
+          candidate.toLowerCase().includes('right') && candidate.toLowerCase().includes(pattern));
+        return sentence ? [{ right, description: sentence }] : [];
+      })
+    };
+  }
+}
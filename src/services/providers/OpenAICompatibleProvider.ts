@@ -0,0 +1,86 @@
+import { ProviderError } from './AnalysisProvider';
+import type { AnalysisOptions, AnalysisProvider, StreamListener } from './AnalysisProvider';
+import { readEventStream } from './eventStream';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Works with any server exposing /chat/completions (OpenAI, Ollama, llama.cpp, vLLM...)
+export class OpenAICompatibleProvider implements AnalysisProvider {
+  readonly id = 'openai-compatible' as const;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = {
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, '')
+    };
+  }
+
+  async analyze(prompt: string, options: AnalysisOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, false);
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) {
+      console.error('No message content in response:', data);
+      throw new ProviderError('No text content in API response');
+    }
+
+    return text;
+  }
+
+  async analyzeStream(prompt: string, onText: StreamListener, options: AnalysisOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, true);
+    let text = '';
+
+    await readEventStream(response, data => {
+      if (data === '[DONE]') return;
+      const piece = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (typeof piece === 'string' && piece) {
+        text += piece;
+        onText(text);
+      }
+    });
+
+    if (!text) {
+      throw new ProviderError('No text content in API response');
+    }
+    return text;
+  }
+
+  private async request(prompt: string, options: AnalysisOptions, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature ?? 0.3,
+        max_tokens: options.maxOutputTokens ?? 2048,
+        stream
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('OpenAI-compatible API error response:', errorData);
+      throw new ProviderError(
+        `Model API Error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+}
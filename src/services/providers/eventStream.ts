@@ -0,0 +1,31 @@
+/**
+ * Reads a server-sent events body and hands each `data:` payload to the
+ * callback. Both Gemini (`alt=sse`) and OpenAI-style servers stream this way.
+ */
+export async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLines = (final: boolean) => {
+    const lines = buffer.split(/\r?\n/);
+    buffer = final ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data) onData(data);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    flushLines(false);
+  }
+
+  buffer += decoder.decode();
+  flushLines(true);
+}
@@ -0,0 +1,69 @@
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { MockProvider } from './MockProvider';
+import type { AnalysisProvider } from './AnalysisProvider';
+import type { ExtensionSettings } from '../SettingsService';
+
+export * from './AnalysisProvider';
+export { GeminiProvider, OpenAICompatibleProvider, MockProvider };
+
+export function createProvider(settings: ExtensionSettings): AnalysisProvider {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        apiKey: settings.openAIApiKey,
+        model: settings.openAIModel,
+        baseUrl: settings.openAIBaseUrl
+      });
+    case 'mock':
+      return new MockProvider();
+    case 'gemini':
+    default:
+      return new GeminiProvider({
+        apiKey: settings.geminiApiKey,
+        model: settings.geminiModel,
+        baseUrl: settings.geminiBaseUrl
+      });
+  }
+}
+
+// Human-readable "provider/model" label recorded with each analysis
+export function describeModel(settings: ExtensionSettings): string {
+  switch (settings.provider) {
+    case 'gemini':
+      return `gemini/${settings.geminiModel}`;
+    case 'openai-compatible':
+      return `openai-compatible/${settings.openAIModel}`;
+    default:
+      return settings.provider;
+  }
+}
+
+// Bump whenever the analysis prompts change, so results from older prompts aren't reused
+export const PROMPT_VERSION = 1;
+
+// Cached analyses are only reused for the same prompts and model
+export function analysisVersion(settings: ExtensionSettings): string {
+  return `p${PROMPT_VERSION}/${describeModel(settings)}`;
+}
+
+// Whether the selected provider has what it needs to make a request
+export function isProviderConfigured(settings: ExtensionSettings): boolean {
+  switch (settings.provider) {
+    case 'gemini':
+      return Boolean(settings.geminiApiKey);
+    case 'openai-compatible':
+      return Boolean(settings.openAIBaseUrl && settings.openAIModel);
+    default:
+      return true;
+  }
+}
+
+// Sends a tiny prompt to confirm the key, model and endpoint are usable
+export async function testProvider(settings: ExtensionSettings): Promise<void> {
+  const provider = createProvider(settings);
+  await provider.analyze('Reply with the single word OK.', {
+    temperature: 0,
+    maxOutputTokens: 16
+  });
+}
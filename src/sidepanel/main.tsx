@@ -0,0 +1,18 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import { I18nextProvider } from 'react-i18next'
+import i18n from '../i18n'
+import { LanguageProvider } from '../contexts/LanguageContext'
+import Popup from '../components/Popup'
+import '../index.css'
+import './sidepanel.css'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <I18nextProvider i18n={i18n}>
+      <LanguageProvider>
+        <Popup layout="sidepanel" />
+      </LanguageProvider>
+    </I18nextProvider>
+  </StrictMode>,
+)
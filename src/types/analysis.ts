@@ -0,0 +1,109 @@
+// Shared analysis types used by the background worker and the popup
+import type { TermsChangeReport } from './changes';
+import type { PrivacyPractices } from './privacy';
+
+// Kind of legal document being analyzed; privacy policies get their own schema
+export type DocumentType = 'terms' | 'privacy';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export const FINDING_CATEGORIES = [
+  'data-sharing',
+  'arbitration',
+  'auto-renewal',
+  'termination',
+  'liability',
+  'content-license',
+  'jurisdiction',
+  'payment',
+  'changes-to-terms',
+  'privacy',
+  'other'
+] as const;
+
+export type FindingCategory = typeof FINDING_CATEGORIES[number];
+
+// Character range of a quote within the analyzed text
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// A single clause the model flagged, backed by a verbatim quote
+export interface Finding {
+  category: FindingCategory;
+  severity: Severity;
+  title: string;
+  explanation: string;
+  quote: string;
+  location?: TextSpan;
+  // Set on findings from the local pattern library, whose text has translations keyed by rule
+  ruleId?: string;
+}
+
+// What the content script needs to find and paint a finding in the page
+export type HighlightTarget = Pick<Finding, 'quote' | 'severity' | 'location'>;
+
+// How much of the detected document the analysis actually covered
+export interface AnalysisCoverage {
+  analyzedCharacters: number;
+  totalCharacters: number;
+  analyzedChunks: number;
+  totalChunks: number;
+}
+
+// What one category added to the risk score
+export interface ScoreContribution {
+  category: FindingCategory;
+  points: number;
+  count: number;
+  // Most severe finding in the category
+  severity: Severity;
+}
+
+export interface RiskScore {
+  // 0-100
+  score: number;
+  level: RiskLevel;
+  breakdown: ScoreContribution[];
+}
+
+// Where a result came from: a model, or only the local pattern library
+export type AnalysisSource = 'ai' | 'rules';
+
+// Why a rule-based result was produced instead of an AI one
+export type OfflineReason = 'requested' | 'not-configured' | 'offline';
+
+// Outcome of the local pattern library, attached to AI results as a cross-check
+export interface RuleCheck {
+  version: string;
+  riskLevel: RiskLevel;
+  riskScore: RiskScore;
+  findings: Finding[];
+}
+
+export interface AnalysisResult {
+  summary: string;
+  // Derived from riskScore; older results carry the model's own label instead
+  riskLevel: RiskLevel;
+  riskScore?: RiskScore;
+  keyPoints: string[];
+  redFlags: string[];
+  findings: Finding[];
+  timestamp: number;
+  coverage?: AnalysisCoverage;
+  // "provider/model" that produced the result
+  model?: string;
+  // Present when the page's terms changed since the previous stored version
+  changes?: TermsChangeReport;
+  // Missing on results from before document types existed, which were all terms
+  documentType?: DocumentType;
+  // Only for privacy policies
+  privacy?: PrivacyPractices;
+  // Missing means 'ai'
+  source?: AnalysisSource;
+  offlineReason?: OfflineReason;
+  ruleCheck?: RuleCheck;
+}
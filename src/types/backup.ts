@@ -0,0 +1,50 @@
+// Portable copy of a user's analyses and preferences, for moving between devices
+
+import type { ExtensionSettings } from '../services/SettingsService';
+import type { HistoryEntry } from './history';
+import type { WatchedPage } from './monitor';
+
+export const BACKUP_FORMAT = 'tc-analyzer-backup';
+export const BACKUP_VERSION = 1;
+
+// API keys stay on the device they were entered on
+export type BackupSettings = Omit<ExtensionSettings, 'geminiApiKey' | 'openAIApiKey'>;
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  settings: Partial<BackupSettings>;
+  language?: string;
+  // Entries are re-numbered on import, so ids are not kept
+  history: Omit<HistoryEntry, 'id'>[];
+  watches: WatchedPage[];
+}
+
+// How an import treats settings that differ between the backup and this device
+export type SettingsConflict = 'keep-local' | 'use-backup';
+
+export interface ImportOptions {
+  settings: SettingsConflict;
+}
+
+export interface ImportSummary {
+  historyAdded: number;
+  // Already present: same URL, language and time
+  historySkipped: number;
+  watchesAdded: number;
+  // Already watched here; the more recently checked copy was kept
+  watchesMerged: number;
+  settingsApplied: boolean;
+}
+
+// Trimmed history entry kept in chrome.storage.sync, with short keys to fit its quota
+export interface SyncedSummary {
+  u: string;    // url
+  t: string;    // title
+  l: string;    // language
+  ts: number;   // timestamp
+  r: HistoryEntry['riskLevel'];
+  s?: number;   // risk score
+  m: string;    // summary, truncated
+}
@@ -0,0 +1,26 @@
+import type { Severity } from './analysis';
+
+export type DiffType = 'added' | 'removed' | 'modified';
+
+// One changed paragraph between two versions of a document
+export interface DiffEntry {
+  type: DiffType;
+  before?: string;
+  after?: string;
+  // Nearest heading above the paragraph in the newer version (or older, for removals)
+  section?: string;
+}
+
+export interface ChangeAssessment {
+  summary: string;
+  significance: Severity;
+  items: { change: string; impact: string }[];
+}
+
+// What changed since the previous stored version of a page's terms
+export interface TermsChangeReport {
+  previousTimestamp: number;
+  diff: DiffEntry[];
+  stats: Record<DiffType, number>;
+  assessment?: ChangeAssessment;
+}
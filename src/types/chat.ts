@@ -0,0 +1,20 @@
+// Q&A conversation about one page's terms
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Verbatim passages from the terms that support an answer
+  quotes?: string[];
+  // The terms don't say anything about the question
+  notAddressed?: boolean;
+  timestamp: number;
+}
+
+// Stored per URL so a conversation picks up where it left off
+export interface ChatThread {
+  url: string;
+  messages: ChatMessage[];
+  updatedAt: number;
+}
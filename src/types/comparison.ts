@@ -0,0 +1,40 @@
+import type { FindingCategory, RiskLevel } from './analysis';
+
+export type ComparisonSide = 'left' | 'right';
+
+// Which service is better for the user on a point, or overall
+export type ComparisonVerdict = ComparisonSide | 'tie';
+
+// A stored analysis (by history id) or a page to look up or analyze (by URL)
+export interface ComparisonSource {
+  historyId?: number;
+  url?: string;
+}
+
+export interface ComparedService {
+  url: string;
+  title: string;
+  // Missing for results stored without clause findings (older or synced entries)
+  score?: number;
+  riskLevel: RiskLevel;
+}
+
+export interface CategoryComparison {
+  category: FindingCategory;
+  left: { points: number; titles: string[] };
+  right: { points: number; titles: string[] };
+  // The side with fewer risk points grants the company less on this point
+  better: ComparisonVerdict;
+}
+
+export interface TermsComparison {
+  left: ComparedService;
+  right: ComparedService;
+  categories: CategoryComparison[];
+  better: ComparisonVerdict;
+  // A side had no clause findings, so the verdict rests on its stored risk level
+  approximate?: boolean;
+  // Model-written explanation; missing when no model was reachable
+  narrative?: string;
+  timestamp: number;
+}
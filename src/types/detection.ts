@@ -0,0 +1,26 @@
+import type { DocumentType } from './analysis';
+
+// A Terms or Privacy page linked from the current one
+export interface LinkedDocument {
+  url: string;
+  kind: DocumentType;
+  text: string;
+}
+
+// Result of scanning a page for Terms and Conditions
+export interface TermsDetectionResult {
+  found: boolean;
+  content?: string;
+  location?: string;
+  title?: string;
+  documentType?: DocumentType;
+  links?: LinkedDocument[];
+}
+
+// What the content script reports to the background after automatic detection
+export interface DetectionReport {
+  found: boolean;
+  location?: string;
+  // The page has an "I agree" checkbox or button
+  agreementPrompt: boolean;
+}
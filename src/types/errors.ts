@@ -0,0 +1,26 @@
+// Failures the UI can explain specifically instead of showing a raw message
+
+export const ANALYSIS_ERROR_CODES = [
+  'not-configured',
+  'offline',
+  'rate-limited',
+  'auth',
+  'invalid-response',
+  'cancelled',
+  'failed'
+] as const;
+
+export type AnalysisErrorCode = typeof ANALYSIS_ERROR_CODES[number];
+
+export class AnalysisError extends Error {
+  readonly code: AnalysisErrorCode;
+
+  constructor(code: AnalysisErrorCode, message: string) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+  }
+}
+
+export const isAnalysisErrorCode = (value: unknown): value is AnalysisErrorCode =>
+  ANALYSIS_ERROR_CODES.includes(value as AnalysisErrorCode);
@@ -0,0 +1,11 @@
+// CSS Custom Highlight API (Chrome 105+), not yet in TypeScript's DOM lib
+declare class Highlight extends Set<AbstractRange> {
+    constructor(...initialRanges: AbstractRange[]);
+    priority: number;
+}
+
+interface HighlightRegistry extends Map<string, Highlight> {}
+
+declare namespace CSS {
+    const highlights: HighlightRegistry | undefined;
+}
@@ -0,0 +1,25 @@
+import type { AnalysisResult, RiskLevel } from './analysis';
+
+// One analysis run, kept indefinitely in the history store
+export interface HistoryEntry {
+  id: number;
+  url: string;
+  domain: string;
+  title: string;
+  language: string;
+  timestamp: number;
+  riskLevel: RiskLevel;
+  result: AnalysisResult;
+  // Compact copy synced from another device: only the summary and risk were kept
+  synced?: boolean;
+}
+
+// What history lists show; the full result is loaded when an entry is opened
+export type HistorySummary = Omit<HistoryEntry, 'result'>;
+
+export interface HistoryQuery {
+  // Matched case-insensitively against domain and title
+  search?: string;
+  riskLevel?: RiskLevel;
+  limit?: number;
+}
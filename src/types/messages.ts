@@ -0,0 +1,139 @@
+import type { AnalysisResult, DocumentType, HighlightTarget } from './analysis';
+import type { DetectionReport, TermsDetectionResult } from './detection';
+import type { HistoryEntry, HistoryQuery, HistorySummary } from './history';
+import type { WatchedPage } from './monitor';
+import type { ComparisonSource, TermsComparison } from './comparison';
+import type { ChatMessage } from './chat';
+import type { AnalysisErrorCode } from './errors';
+import type { BackupBundle, ImportSummary, SettingsConflict } from './backup';
+import type { TermsTranslation } from './translation';
+
+// Request type for actions that carry nothing beyond `action`
+type NoFields = Record<never, never>;
+
+/**
+ * Every message exchanged between the popup, content script and background,
+ * keyed by action: the extra request fields and the `data` of a successful response.
+ */
+export interface MessageMap {
+  // Handled by the background service worker
+  analyzeTerms: {
+    request: { content: string; language: string; url?: string; title?: string; documentType?: DocumentType };
+    response: AnalysisResult;
+  };
+  analyzeOffline: {
+    request: { content: string; documentType?: DocumentType };
+    response: AnalysisResult;
+  };
+  getCachedAnalysis: {
+    request: { url: string; language: string; content?: string };
+    response: AnalysisResult | null;
+  };
+  clearCache: {
+    request: { url?: string };
+    response: null;
+  };
+  // List rows only; getHistoryEntry loads the result of the one opened
+  getHistory: {
+    request: HistoryQuery;
+    response: HistorySummary[];
+  };
+  getHistoryEntry: {
+    request: { id: number };
+    response: HistoryEntry | null;
+  };
+  deleteHistoryEntry: {
+    request: { id: number };
+    response: null;
+  };
+  watchPage: {
+    request: { url: string; title?: string };
+    response: WatchedPage;
+  };
+  unwatchPage: {
+    request: { url: string };
+    response: null;
+  };
+  getWatches: {
+    request: NoFields;
+    response: WatchedPage[];
+  };
+  checkWatches: {
+    request: NoFields;
+    response: WatchedPage[];
+  };
+  compareAnalyses: {
+    request: { left: ComparisonSource; right: ComparisonSource; language: string };
+    response: TermsComparison;
+  };
+  getChat: {
+    request: { url: string };
+    response: ChatMessage[];
+  };
+  askQuestion: {
+    request: { url: string; content: string; question: string; language: string };
+    response: ChatMessage;
+  };
+  translateTerms: {
+    request: { content: string; language: string };
+    response: TermsTranslation;
+  };
+  clearChat: {
+    request: { url: string };
+    response: null;
+  };
+  exportBackup: {
+    request: NoFields;
+    response: BackupBundle;
+  };
+  // The bundle is validated by the background before anything is written
+  importBackup: {
+    request: { bundle: unknown; settings: SettingsConflict };
+    response: ImportSummary;
+  };
+  fetchLinkedDocument: {
+    request: { url: string };
+    response: TermsDetectionResult;
+  };
+  // Sent by content scripts for their own tab, or by the popup with an explicit tab
+  // Answers whether the page should get the consent banner, so content scripts never read settings
+  updateBadge: {
+    request: DetectionReport & { url: string; tabId?: number };
+    response: { showConsentBanner: boolean };
+  };
+  dismissConsentBanner: {
+    request: NoFields;
+    response: null;
+  };
+
+  // Handled by the content script
+  detectTerms: {
+    request: { language?: string };
+    response: TermsDetectionResult;
+  };
+  highlightFindings: {
+    request: { findings: HighlightTarget[]; focusIndex?: number };
+    response: { highlighted: number };
+  };
+  clearHighlights: {
+    request: NoFields;
+    response: null;
+  };
+
+  // Broadcast by the background to open extension pages (the side panel)
+  termsDetected: {
+    request: DetectionReport & { url: string; tabId: number };
+    response: null;
+  };
+}
+
+export type MessageAction = keyof MessageMap;
+
+// Discriminated union of all request messages (or only those for the given actions)
+export type ExtensionMessage<A extends MessageAction = MessageAction> = {
+  [K in A]: { action: K } & MessageMap[K]['request'];
+}[A];
+
+export type MessageResponse<A extends MessageAction = MessageAction> =
+  | { success: true; data: MessageMap[A]['response'] }
+  | { success: false; error: string; code?: AnalysisErrorCode };
@@ -0,0 +1,11 @@
+// A terms page the background worker re-checks on a schedule
+export interface WatchedPage {
+  url: string;
+  title: string;
+  addedAt: number;
+  lastCheckedAt?: number;
+  // Hash of the text extracted by the background fetcher (not the content script)
+  contentHash?: string;
+  lastChangedAt?: number;
+  lastError?: string;
+}
@@ -0,0 +1,36 @@
+// Data-practice taxonomy extracted from privacy policies
+
+export const USER_RIGHTS = [
+  'access',
+  'deletion',
+  'correction',
+  'portability',
+  'opt-out',
+  'withdraw-consent'
+] as const;
+
+export type UserRightType = typeof USER_RIGHTS[number];
+
+export interface ThirdPartySharing {
+  recipient: string;
+  purpose: string;
+}
+
+export interface UserRight {
+  right: UserRightType;
+  description: string;
+}
+
+/**
+ * What a privacy policy says about each data practice. An empty list means
+ * the policy doesn't mention the practice, which is itself worth showing.
+ */
+export interface PrivacyPractices {
+  dataCollected: string[];
+  purposes: string[];
+  sharing: ThirdPartySharing[];
+  retention: string[];
+  userRights: UserRight[];
+  crossBorderTransfers: string[];
+  childrenData: string[];
+}
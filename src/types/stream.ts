@@ -0,0 +1,25 @@
+// Streaming analysis over a long-lived port between a page and the background
+
+import type { AnalysisResult, DocumentType, Finding } from './analysis';
+import type { AnalysisErrorCode } from './errors';
+
+export const ANALYSIS_PORT_NAME = 'analysis-stream';
+
+// Sent by the page over the port
+export type AnalysisStreamRequest =
+  | { type: 'start'; content: string; language: string; url?: string; title?: string; documentType?: DocumentType }
+  | { type: 'cancel' };
+
+// What has come back so far, across all chunks analyzed up to now
+export interface AnalysisPreview {
+  summary?: string;
+  findings: Finding[];
+}
+
+// Sent by the background over the port
+export type AnalysisStreamEvent =
+  | { type: 'progress'; chunk: number; totalChunks: number }
+  | { type: 'partial'; preview: AnalysisPreview }
+  | { type: 'done'; result: AnalysisResult }
+  | { type: 'cancelled' }
+  | { type: 'error'; error: string; code?: AnalysisErrorCode };
@@ -0,0 +1,19 @@
+// Section-by-section translation of a terms document into the reader's language
+
+export interface TranslatedSection {
+  index: number;
+  heading?: string;
+  original: string;
+  translated: string;
+}
+
+export interface TermsTranslation {
+  contentHash: string;
+  language: string;
+  sections: TranslatedSection[];
+  // Sections beyond the limit are left out, like chunks beyond MAX_CHUNKS in analyses
+  truncated: boolean;
+  // "provider/model" that produced the translation
+  model?: string;
+  timestamp: number;
+}
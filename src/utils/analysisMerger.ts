@@ -0,0 +1,96 @@
+import type { AnalysisResult, Finding } from '../types/analysis';
+import type { PrivacyPractices, ThirdPartySharing, UserRight } from '../types/privacy';
+
+// The risk level is scored once on the merged findings, so partials don't carry one
+export type PartialAnalysis = Omit<AnalysisResult, 'timestamp' | 'coverage' | 'riskLevel'>;
+
+// Two items are duplicates when most of their words overlap
+const SIMILARITY_THRESHOLD = 0.8;
+
+const tokenize = (text: string): Set<string> =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean));
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+export function dedupeItems(items: string[]): string[] {
+  const kept: { text: string; tokens: Set<string> }[] = [];
+
+  for (const item of items) {
+    const text = item.trim();
+    if (!text) continue;
+    const tokens = tokenize(text);
+    if (kept.some(existing => similarity(existing.tokens, tokens) >= SIMILARITY_THRESHOLD)) continue;
+    kept.push({ text, tokens });
+  }
+
+  return kept.map(item => item.text);
+}
+
+// Findings are duplicates when they share a category and quote nearly the same text
+export function dedupeFindings(findings: Finding[]): Finding[] {
+  const kept: { finding: Finding; tokens: Set<string> }[] = [];
+
+  for (const finding of findings) {
+    const tokens = tokenize(finding.quote);
+    const duplicate = kept.some(existing =>
+      existing.finding.category === finding.category &&
+      similarity(existing.tokens, tokens) >= SIMILARITY_THRESHOLD
+    );
+    if (!duplicate) kept.push({ finding, tokens });
+  }
+
+  return kept.map(item => item.finding);
+}
+
+// Each list is deduplicated like key points; sharing and rights keep their first occurrence
+export function mergePrivacyPractices(practices: PrivacyPractices[]): PrivacyPractices {
+  const sharing: ThirdPartySharing[] = [];
+  const recipients = dedupeItems(practices.flatMap(practice => practice.sharing.map(item => item.recipient)));
+  for (const recipient of recipients) {
+    const item = practices.flatMap(practice => practice.sharing).find(entry => entry.recipient.trim() === recipient);
+    if (item) sharing.push(item);
+  }
+
+  const userRights: UserRight[] = [];
+  for (const right of practices.flatMap(practice => practice.userRights)) {
+    if (!userRights.some(existing => existing.right === right.right)) userRights.push(right);
+  }
+
+  return {
+    dataCollected: dedupeItems(practices.flatMap(practice => practice.dataCollected)),
+    purposes: dedupeItems(practices.flatMap(practice => practice.purposes)),
+    sharing,
+    retention: dedupeItems(practices.flatMap(practice => practice.retention)),
+    userRights,
+    crossBorderTransfers: dedupeItems(practices.flatMap(practice => practice.crossBorderTransfers)),
+    childrenData: dedupeItems(practices.flatMap(practice => practice.childrenData))
+  };
+}
+
+/**
+ * Combines per-chunk analyses into one result: key points and red flags are
+ * deduplicated in document order, findings are deduplicated per category and
+ * privacy practices are merged list by list.
+ */
+export function mergeAnalysisResults(results: PartialAnalysis[]): PartialAnalysis {
+  const merged: PartialAnalysis = {
+    summary: results.map(result => result.summary).filter(Boolean).join(' '),
+    keyPoints: dedupeItems(results.flatMap(result => result.keyPoints)),
+    redFlags: dedupeItems(results.flatMap(result => result.redFlags)),
+    findings: dedupeFindings(results.flatMap(result => result.findings))
+  };
+
+  const practices = results.flatMap(result => result.privacy ? [result.privacy] : []);
+  if (practices.length > 0) {
+    merged.privacy = mergePrivacyPractices(practices);
+  }
+
+  return merged;
+}
@@ -0,0 +1,39 @@
+import type { DocumentType } from '../types/analysis';
+import { containsPrivacyIndicators, containsTermsIndicators } from './termsHeuristics';
+
+// Phrases that are common in one kind of document and rare in the other
+const PRIVACY_SIGNALS = [
+  'personal data', 'personal information', 'data controller', 'data subject',
+  'we collect', 'information we collect', 'retain', 'retention', 'cookies',
+  'opt out', 'opt-out', 'gdpr', 'ccpa', 'processing of', 'lawful basis',
+  'your rights', 'right to access', 'right to erasure', 'data protection officer'
+];
+
+const TERMS_SIGNALS = [
+  'you agree', 'governing law', 'arbitration', 'limitation of liability',
+  'indemnif', 'warrant', 'termination', 'license to', 'prohibited',
+  'subscription', 'refund', 'intellectual property', 'disclaimer'
+];
+
+// A document counts as a privacy policy when privacy phrases clearly outnumber terms phrases
+const PRIVACY_RATIO = 1.5;
+
+const countSignals = (text: string, signals: string[]): number =>
+  signals.reduce((count, signal) => count + text.split(signal).length - 1, 0);
+
+/**
+ * Decides whether a detected document is Terms of Service or a privacy policy.
+ * The title and URL are trusted first; the body text only breaks ties.
+ */
+export function classifyDocument(text: string, title: string = '', url: string = ''): DocumentType {
+  const label = `${title} ${url}`;
+  const privacyLabel = containsPrivacyIndicators(title) || containsPrivacyIndicators(url);
+  const termsLabel = containsTermsIndicators(label);
+  if (privacyLabel && !termsLabel) return 'privacy';
+  if (termsLabel && !privacyLabel) return 'terms';
+
+  const lowerText = text.toLowerCase();
+  const privacyScore = countSignals(lowerText, PRIVACY_SIGNALS);
+  const termsScore = countSignals(lowerText, TERMS_SIGNALS);
+  return privacyScore > termsScore * PRIVACY_RATIO ? 'privacy' : 'terms';
+}
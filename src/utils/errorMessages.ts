@@ -0,0 +1,10 @@
+import i18n from '../i18n';
+import { AnalysisError } from '../types/errors';
+
+// Known failures get a localized explanation; anything else shows its own message
+export function describeError(error: unknown, fallback: string): string {
+  if (error instanceof AnalysisError) {
+    return i18n.t(`popup:errors.codes.${error.code}`);
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
@@ -0,0 +1,11 @@
+// Whitespace-insensitive so reflowed markup doesn't count as a content change
+export const normalizeForHash = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// SHA-256 hex digest; crypto.subtle exists in pages and the service worker alike
+export async function hashText(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(normalizeForHash(text));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
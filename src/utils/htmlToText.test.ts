@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEntities, htmlToText, matchesSelector, parseHtml, querySelector, querySelectorAll, textContent } from './htmlToText';
+import type { HtmlElement } from './htmlToText';
+import { PAGE_EXCLUDE_SELECTORS } from './termsHeuristics';
+import termsPage from './__fixtures__/terms-page.html?raw';
+
+const element = (tagName: string, attributes: Record<string, string> = {}): HtmlElement =>
+  ({ tagName, attributes, children: [], parent: null });
+
+describe('decodeEntities', () => {
+  it('decodes named, decimal and hex entities', () => {
+    expect(decodeEntities('Acme &amp; Co &ndash; &quot;Terms&quot;')).toBe('Acme & Co – "Terms"');
+    expect(decodeEntities('Acme&#39;s &#x2014; &#X2014; &sect;&nbsp;12')).toBe('Acme\'s — — § 12');
+  });
+
+  it('is case-insensitive for named entities', () => {
+    expect(decodeEntities('&AMP; &Copy;')).toBe('& ©');
+  });
+
+  it('leaves unknown entities and invalid code points alone', () => {
+    expect(decodeEntities('&unknown; &#0; &#x110000; & alone')).toBe('&unknown; &#0; &#x110000; & alone');
+  });
+});
+
+describe('parseHtml', () => {
+  it('keeps script and style bodies as raw text, closing them case-insensitively', () => {
+    const root = parseHtml(termsPage);
+    const script = querySelector(root, 'script');
+    expect(script?.children).toHaveLength(1);
+    expect(textContent(script!)).toContain('document.write("</div><p>Injected</p>")');
+    expect(textContent(querySelector(root, 'style')!)).toContain('/* </p> */');
+    // Markup inside the script never became elements
+    expect(querySelectorAll(root, 'p').map(textContent)).not.toContain('Injected');
+  });
+
+  it('decodes entities in textarea and title but not in scripts', () => {
+    const root = parseHtml(termsPage);
+    expect(textContent(querySelector(root, 'textarea')!)).toBe('Notes <b>kept</b>');
+    expect(textContent(querySelector(root, 'title')!)).toBe('Acme & Co – Terms of Service');
+    expect(textContent(querySelector(root, 'script')!)).toContain('a < b && c > d');
+  });
+
+  it('skips comments and recovers from unclosed tags', () => {
+    const root = parseHtml('<div><!-- <p>hidden</p> --><p>one<p>two</span></div>after');
+    expect(querySelectorAll(root, 'p').map(textContent)).toEqual(['onetwo', 'two']);
+    expect(textContent(root)).toBe('onetwoafter');
+  });
+});
+
+describe('matchesSelector', () => {
+  const main = element('MAIN', { id: 'terms', class: 'legal-content wide', role: 'main' });
+
+  it('supports tag, class, id and attribute selectors', () => {
+    expect(matchesSelector(main, 'main')).toBe(true);
+    expect(matchesSelector(main, '.legal-content')).toBe(true);
+    expect(matchesSelector(main, '.wide')).toBe(true);
+    expect(matchesSelector(main, '#terms')).toBe(true);
+    expect(matchesSelector(main, '[role]')).toBe(true);
+    expect(matchesSelector(main, '[role="main"]')).toBe(true);
+    expect(matchesSelector(main, 'main.legal-content#terms[role=main]')).toBe(true);
+  });
+
+  it('rejects non-matching qualifiers', () => {
+    expect(matchesSelector(main, 'div')).toBe(false);
+    expect(matchesSelector(main, '.legal')).toBe(false);
+    expect(matchesSelector(main, '#other')).toBe(false);
+    expect(matchesSelector(main, '[role="dialog"]')).toBe(false);
+    expect(matchesSelector(main, '[aria-modal]')).toBe(false);
+  });
+
+  it('matches any part of a selector list', () => {
+    expect(matchesSelector(main, 'nav, .sidebar, [role="main"]')).toBe(true);
+    expect(matchesSelector(main, PAGE_EXCLUDE_SELECTORS.join(', '))).toBe(false);
+  });
+
+  it('does not match selectors outside the supported subset', () => {
+    expect(matchesSelector(main, 'body main')).toBe(false);
+    expect(matchesSelector(main, 'main > p')).toBe(false);
+    expect(matchesSelector(main, 'main:first-child')).toBe(false);
+  });
+});
+
+describe('htmlToText', () => {
+  it('returns the body text with paragraph and line breaks at block boundaries', () => {
+    const text = htmlToText(termsPage);
+    expect(text).toContain('Terms of Service\n\nWelcome to Acme\'s service. By using it you agree to these terms and our privacy policy.\n\n');
+    expect(text).toContain('jury trial.\nYour subscription renews automatically each month.\nWe may share');
+  });
+
+  it('leaves out scripts, styles, comments and the head', () => {
+    const text = htmlToText(termsPage);
+    expect(text).not.toContain('Injected');
+    expect(text).not.toContain('color: red');
+    expect(text).not.toContain('Commented out clause');
+    expect(text).not.toContain('Acme & Co – Terms of Service');
+  });
+
+  it('drops excluded elements', () => {
+    const text = htmlToText(termsPage, PAGE_EXCLUDE_SELECTORS.join(', '));
+    expect(text).not.toContain('Pricing');
+    expect(text).not.toContain('Site header');
+    expect(text).not.toContain('© 2024 Acme');
+    expect(text.startsWith('Terms of Service')).toBe(true);
+  });
+});
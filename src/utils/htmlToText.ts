@@ -0,0 +1,198 @@
+// DOM-free HTML-to-text pipeline. The service worker has no DOMParser, so
+// fetched pages are parsed here with a small tolerant tree builder that
+// produces the same text layout as the content script's live-DOM walker.
+
+// Uppercase tag names, matching Element.tagName in the content script
+export const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+
+// Elements that start a new paragraph (blank line) or a new line
+export const PARAGRAPH_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'SECTION', 'ARTICLE', 'BLOCKQUOTE']);
+export const LINE_TAGS = new Set(['DIV', 'LI', 'TR', 'DT', 'DD', 'BR', 'UL', 'OL', 'TABLE']);
+
+const VOID_TAGS = new Set(['AREA', 'BASE', 'BR', 'COL', 'EMBED', 'HR', 'IMG', 'INPUT', 'LINK', 'META', 'SOURCE', 'TRACK', 'WBR']);
+const RAW_TEXT_TAGS = new Set(['SCRIPT', 'STYLE', 'TEXTAREA', 'TITLE']);
+
+export interface HtmlElement {
+  tagName: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', ndash: '–', mdash: '—',
+  hellip: '…', copy: '©', reg: '®', trade: '™', sect: '§', middot: '·', bull: '•'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Parses HTML into a lightweight element tree. Unclosed and mismatched tags
+ * are handled the forgiving way browsers do for typical page markup.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tagName: '#ROOT', attributes: {}, children: [], parent: null };
+  let current = root;
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/?([a-zA-Z][\w:-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>/g;
+  let lastIndex = 0;
+  // Raw-text end tags are matched case-insensitively
+  const lowerHtml = html.toLowerCase();
+
+  for (let match = tagPattern.exec(html); match; match = tagPattern.exec(html)) {
+    if (match.index > lastIndex) {
+      current.children.push(decodeEntities(html.substring(lastIndex, match.index)));
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const [token, name, attributeSource] = match;
+    if (!name) continue; // comment, doctype or CDATA
+
+    const tagName = name.toUpperCase();
+    if (token[1] === '/') {
+      // Close the nearest open element with this name, if any
+      for (let node: HtmlElement | null = current; node && node !== root; node = node.parent) {
+        if (node.tagName === tagName) {
+          current = node.parent ?? root;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const element: HtmlElement = {
+      tagName,
+      attributes: parseAttributes(attributeSource ?? ''),
+      children: [],
+      parent: current
+    };
+    current.children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tagName)) {
+      const closeIndex = lowerHtml.indexOf(`</${name.toLowerCase()}`, lastIndex);
+      const end = closeIndex === -1 ? html.length : closeIndex;
+      element.children.push(tagName === 'SCRIPT' || tagName === 'STYLE' ? html.substring(lastIndex, end) : decodeEntities(html.substring(lastIndex, end)));
+      const closeEnd = closeIndex === -1 ? html.length : html.indexOf('>', closeIndex) + 1 || html.length;
+      lastIndex = closeEnd;
+      tagPattern.lastIndex = closeEnd;
+      continue;
+    }
+
+    if (!VOID_TAGS.has(tagName) && !token.endsWith('/>')) {
+      current = element;
+    }
+  }
+
+  if (lastIndex < html.length) {
+    current.children.push(decodeEntities(html.substring(lastIndex)));
+  }
+
+  return root;
+}
+
+// Supports the simple selectors detection uses: tag, .class, #id, [attr] and [attr="value"]
+export function matchesSelector(element: HtmlElement, selector: string): boolean {
+  return selector.split(',').some(part => {
+    const pattern = /^([a-z][\w-]*)?((?:[.#][\w-]+|\[[\w-]+(?:=["']?[^"'\]]*["']?)?\])*)$/i;
+    const match = part.trim().match(pattern);
+    if (!match) return false;
+
+    const [, tag, qualifiers] = match;
+    if (tag && element.tagName !== tag.toUpperCase()) return false;
+
+    const qualifierPattern = /\.([\w-]+)|#([\w-]+)|\[([\w-]+)(?:=["']?([^"'\]]*)["']?)?\]/g;
+    for (let q = qualifierPattern.exec(qualifiers); q; q = qualifierPattern.exec(qualifiers)) {
+      if (q[1] && !(element.attributes.class ?? '').split(/\s+/).includes(q[1])) return false;
+      if (q[2] && element.attributes.id !== q[2]) return false;
+      if (q[3]) {
+        const value = element.attributes[q[3].toLowerCase()];
+        if (value === undefined) return false;
+        if (q[4] !== undefined && value !== q[4]) return false;
+      }
+    }
+    return true;
+  });
+}
+
+export function querySelectorAll(root: HtmlElement, selector: string): HtmlElement[] {
+  const matches: HtmlElement[] = [];
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (matchesSelector(child, selector)) matches.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return matches;
+}
+
+export function querySelector(root: HtmlElement, selector: string): HtmlElement | null {
+  return querySelectorAll(root, selector)[0] ?? null;
+}
+
+// Concatenated text of an element, e.g. for <title> or link labels
+export function textContent(node: HtmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+/**
+ * Normalized text of an element, with paragraph and line breaks at block
+ * boundaries, using the same rules as the content script's text map.
+ */
+export function elementToText(element: HtmlElement, excludeSelector?: string): string {
+  let output = '';
+  let pendingBreak = '';
+  let pendingSpace = false;
+
+  const visit = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (typeof child !== 'string') {
+        if (SKIPPED_TAGS.has(child.tagName)) continue;
+        if (excludeSelector && matchesSelector(child, excludeSelector)) continue;
+        if (PARAGRAPH_TAGS.has(child.tagName)) pendingBreak = '\n\n';
+        else if (LINE_TAGS.has(child.tagName) && !pendingBreak) pendingBreak = '\n';
+        visit(child);
+        continue;
+      }
+
+      for (const char of child) {
+        if (/\s/.test(char)) {
+          pendingSpace = true;
+          continue;
+        }
+        if (output) output += pendingBreak || (pendingSpace ? ' ' : '');
+        pendingBreak = '';
+        pendingSpace = false;
+        output += char;
+      }
+    }
+  };
+
+  visit(element);
+  return output;
+}
+
+export function htmlToText(html: string, excludeSelector?: string): string {
+  const root = parseHtml(html);
+  return elementToText(querySelector(root, 'body') ?? root, excludeSelector);
+}
@@ -0,0 +1,66 @@
+// Fields of an analysis that can be read before the model has finished the JSON
+export interface PartialAnalysisFields {
+  summary?: string;
+  findings: unknown[];
+}
+
+const SUMMARY_PATTERN = /"summary"\s*:\s*("(?:[^"\\]|\\.)*")/;
+const FINDINGS_PATTERN = /"findings"\s*:\s*\[/;
+
+/**
+ * Picks the completed parts out of a JSON analysis that is still streaming:
+ * the summary once its string is closed, and every finding object whose
+ * closing brace has arrived. Anything unfinished is left for the next call.
+ */
+export function readPartialAnalysis(text: string): PartialAnalysisFields {
+  const fields: PartialAnalysisFields = { findings: [] };
+
+  const summary = text.match(SUMMARY_PATTERN);
+  if (summary) {
+    try {
+      fields.summary = JSON.parse(summary[1]);
+    } catch {
+      // Not a complete string literal yet
+    }
+  }
+
+  const findings = FINDINGS_PATTERN.exec(text);
+  if (!findings) return fields;
+
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = findings.index + findings[0].length; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0 && start >= 0) {
+        try {
+          fields.findings.push(JSON.parse(text.substring(start, i + 1)));
+        } catch {
+          // Skip a malformed object; the final parse reports real errors
+        }
+        start = -1;
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,68 @@
+import { chunkText } from './textChunker';
+import type { TextChunk } from './textChunker';
+
+// Passages are section-aligned and small enough that several fit in one prompt
+const PASSAGE_LENGTH = 3000;
+
+// Words too common in questions to say anything about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'can', 'could', 'does', 'did', 'how', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'would', 'should', 'with', 'you', 'your', 'they', 'them', 'their', 'this',
+  'that', 'there', 'have', 'has', 'about', 'from', 'into', 'any', 'our', 'out', 'not', 'get', 'use'
+]);
+
+const keywords = (text: string): string[] =>
+  text.toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+// Counts keyword hits, matching on word prefixes so "cancel" finds "cancellation"
+const scorePassage = (passage: TextChunk, terms: string[]): number => {
+  const words = keywords(passage.text);
+  return terms.reduce((score, term) => {
+    const stem = term.length > 5 ? term.slice(0, 5) : term;
+    return score + words.filter(word => word.startsWith(stem)).length;
+  }, 0);
+};
+
+// The opening passage and others spread evenly through the document, for questions no passage matches
+const spreadOrder = (passages: TextChunk[], maxLength: number): TextChunk[] => {
+  const count = Math.max(1, Math.floor(maxLength / PASSAGE_LENGTH));
+  const stride = passages.length / count;
+  const picked = new Set(Array.from({ length: count }, (_, i) => Math.floor(i * stride)));
+  return [
+    ...passages.filter(passage => picked.has(passage.index)),
+    ...passages.filter(passage => !picked.has(passage.index))
+  ];
+};
+
+/**
+ * Picks the passages of a document most related to a question, up to
+ * `maxLength` characters, returned in document order. Short documents are
+ * returned whole; when no passage shares a word with the question, the
+ * opening and evenly spaced passages are used instead.
+ */
+export function selectRelevantPassages(text: string, question: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const terms = [...new Set(keywords(question))];
+  const passages = chunkText(text, PASSAGE_LENGTH);
+  const scored = passages.map(passage => ({ passage, score: scorePassage(passage, terms) }));
+  const ranked = scored.some(({ score }) => score > 0)
+    ? scored.sort((a, b) => b.score - a.score || a.passage.index - b.passage.index).map(({ passage }) => passage)
+    : spreadOrder(passages, maxLength);
+
+  const selected: TextChunk[] = [];
+  let length = 0;
+  for (const passage of ranked) {
+    if (length + passage.text.length > maxLength) continue;
+    selected.push(passage);
+    length += passage.text.length;
+  }
+
+  return selected
+    .sort((a, b) => a.index - b.index)
+    .map(passage => passage.text)
+    .join('\n\n[…]\n\n');
+}
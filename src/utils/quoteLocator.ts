@@ -0,0 +1,72 @@
+import type { Finding, TextSpan } from '../types/analysis';
+
+// Characters models commonly swap when quoting: curly quotes, dashes, nbsp
+const EQUIVALENT_CHARACTERS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', ' ': ' '
+};
+
+interface NormalizedText {
+  text: string;
+  // Offset in the original text for every character of `text`
+  offsets: number[];
+}
+
+// Lowercases, unifies punctuation and collapses whitespace while remembering original offsets
+const normalize = (source: string): NormalizedText => {
+  let text = '';
+  const offsets: number[] = [];
+  let previousWasSpace = true;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = EQUIVALENT_CHARACTERS[source[i]] ?? source[i];
+    if (/\s/.test(char)) {
+      if (!previousWasSpace) {
+        text += ' ';
+        offsets.push(i);
+      }
+      previousWasSpace = true;
+      continue;
+    }
+    text += char.toLowerCase();
+    offsets.push(i);
+    previousWasSpace = false;
+  }
+
+  return { text: text.trimEnd(), offsets };
+};
+
+const locateIn = (haystack: NormalizedText, quote: string): TextSpan | null => {
+  const needle = normalize(quote.replace(/^["'“‘]+|["'”’]+$/g, '').replace(/(\.{3}|…)$/, '')).text;
+  if (needle.length < 10) return null;
+
+  const index = haystack.text.indexOf(needle);
+  if (index === -1) return null;
+
+  return {
+    start: haystack.offsets[index],
+    end: haystack.offsets[index + needle.length - 1] + 1
+  };
+};
+
+/**
+ * Finds `quote` in `source`, tolerating differences in whitespace, case and
+ * typographic punctuation. Returns the span in `source`, or null.
+ */
+export function locateQuote(source: string, quote: string): TextSpan | null {
+  return locateIn(normalize(source), quote);
+}
+
+// Keeps only findings whose quote really occurs in the source text
+export function verifyFindings(findings: Finding[], source: string): Finding[] {
+  const haystack = normalize(source);
+
+  return findings.flatMap(finding => {
+    const location = locateIn(haystack, finding.quote);
+    if (!location) {
+      console.warn('Rejected finding with unverifiable quote:', finding.quote);
+      return [];
+    }
+    return [{ ...finding, quote: source.substring(location.start, location.end), location }];
+  });
+}
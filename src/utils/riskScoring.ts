@@ -0,0 +1,89 @@
+import { FINDING_CATEGORIES } from '../types/analysis';
+import type { AnalysisResult, Finding, FindingCategory, RiskLevel, RiskScore, ScoreContribution, Severity } from '../types/analysis';
+
+// Points per category for its most severe finding; users can adjust these in settings
+export type CategoryWeights = Record<FindingCategory, number>;
+
+export const DEFAULT_CATEGORY_WEIGHTS: CategoryWeights = {
+  'data-sharing': 15,
+  arbitration: 25,
+  'auto-renewal': 10,
+  termination: 10,
+  liability: 10,
+  'content-license': 15,
+  jurisdiction: 5,
+  payment: 10,
+  'changes-to-terms': 10,
+  privacy: 10,
+  other: 5
+};
+
+export const MAX_CATEGORY_WEIGHT = 50;
+
+// Share of the category weight a finding of each severity earns
+const SEVERITY_FACTORS: Record<Severity, number> = {
+  low: 0.4,
+  medium: 0.7,
+  high: 1
+};
+
+// Each further finding in a category adds a quarter, up to two more
+const REPEAT_BONUS = 0.25;
+const MAX_REPEATS = 2;
+
+// Scores at or above these are medium / high risk
+export const RISK_THRESHOLDS = {
+  medium: 30,
+  high: 60
+};
+
+const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high'];
+
+export function riskLevelForScore(score: number): RiskLevel {
+  if (score >= RISK_THRESHOLDS.high) return 'high';
+  if (score >= RISK_THRESHOLDS.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Turns categorized findings into a 0-100 score with a per-category
+ * breakdown. Depends only on the findings and weights, so similar documents
+ * get comparable scores whatever the model would have called them.
+ */
+export function scoreFindings(findings: Finding[], weights: CategoryWeights = DEFAULT_CATEGORY_WEIGHTS): RiskScore {
+  const breakdown: ScoreContribution[] = FINDING_CATEGORIES.flatMap(category => {
+    const items = findings.filter(finding => finding.category === category);
+    const weight = weights[category] ?? DEFAULT_CATEGORY_WEIGHTS[category];
+    if (items.length === 0 || weight <= 0) return [];
+
+    const severity = items.reduce<Severity>(
+      (worst, finding) => SEVERITY_ORDER.indexOf(finding.severity) > SEVERITY_ORDER.indexOf(worst) ? finding.severity : worst,
+      'low'
+    );
+    const repeats = Math.min(items.length - 1, MAX_REPEATS);
+    const points = Math.round(weight * SEVERITY_FACTORS[severity] * (1 + REPEAT_BONUS * repeats));
+
+    return [{ category, points, count: items.length, severity }];
+  }).sort((a, b) => b.points - a.points);
+
+  const score = Math.min(100, breakdown.reduce((total, entry) => total + entry.points, 0));
+  return { score, level: riskLevelForScore(score), breakdown };
+}
+
+/**
+ * Scores a stored result again with the current weights. Cached and history
+ * results keep their findings, so changing weights in settings applies to
+ * them too; results from before scoring existed keep the model's label.
+ */
+export function rescoreResult<T extends AnalysisResult>(result: T, weights: CategoryWeights): T {
+  if (!result.riskScore || !result.findings) return result;
+
+  const riskScore = scoreFindings(result.findings, weights);
+  let { ruleCheck } = result;
+  if (ruleCheck) {
+    const ruleScore = scoreFindings(ruleCheck.findings, weights);
+    ruleCheck = { ...ruleCheck, riskLevel: ruleScore.level, riskScore: ruleScore };
+  }
+
+  return { ...result, riskLevel: riskScore.level, riskScore, ruleCheck };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { TFunction } from 'i18next';
+import { analyzeWithRules, localizeFinding } from './ruleAnalyzer';
+import { CLAUSE_RULES, RULES_VERSION } from './rulePatterns';
+import { DEFAULT_CATEGORY_WEIGHTS } from './riskScoring';
+import riskyTerms from './__fixtures__/risky-terms.txt?raw';
+import fairTerms from './__fixtures__/fair-terms.txt?raw';
+
+describe('analyzeWithRules', () => {
+  it('matches every rule in terms that contain each clause', () => {
+    const result = analyzeWithRules(riskyTerms);
+    const ruleIds = new Set(result.findings.map(finding => finding.ruleId));
+    expect([...ruleIds].sort()).toEqual(CLAUSE_RULES.map(rule => rule.id).sort());
+    expect(result.version).toBe(RULES_VERSION);
+    expect(result.riskLevel).toBe('high');
+    expect(result.riskScore.level).toBe(result.riskLevel);
+  });
+
+  it('quotes whole sentences at their exact location in the text', () => {
+    for (const finding of analyzeWithRules(riskyTerms).findings) {
+      expect(finding.location).toBeDefined();
+      expect(riskyTerms.slice(finding.location!.start, finding.location!.end)).toBe(finding.quote);
+    }
+  });
+
+  it('copies the category, severity and wording from the matching rule', () => {
+    const finding = analyzeWithRules(riskyTerms).findings.find(item => item.ruleId === 'data-selling');
+    const rule = CLAUSE_RULES.find(item => item.id === 'data-selling')!;
+    expect(finding).toMatchObject({
+      category: rule.category,
+      severity: rule.severity,
+      title: rule.title,
+      explanation: rule.explanation,
+      quote: 'We may sell your personal information to marketing companies.'
+    });
+  });
+
+  it('ignores negated clauses', () => {
+    const result = analyzeWithRules(fairTerms);
+    expect(result.findings).toEqual([]);
+    expect(result.riskScore.score).toBe(0);
+    expect(result.riskLevel).toBe('low');
+  });
+
+  it('scores with the given category weights', () => {
+    const heavier = analyzeWithRules(riskyTerms, { ...DEFAULT_CATEGORY_WEIGHTS, liability: 50 });
+    const standard = analyzeWithRules(riskyTerms);
+    const points = (result: typeof standard) =>
+      result.riskScore.breakdown.find(entry => entry.category === 'liability')?.points ?? 0;
+    expect(points(heavier)).toBeGreaterThan(points(standard));
+  });
+});
+
+describe('localizeFinding', () => {
+  const t = ((key: string, options: { defaultValue: string }) =>
+    key === 'popup:rules.auto-renewal.title' ? 'Renouvellement automatique' : options.defaultValue) as unknown as TFunction;
+
+  it('looks up rule findings by rule id and falls back to the stored text', () => {
+    const [finding] = analyzeWithRules('Your subscription will automatically renew every year.').findings;
+    expect(localizeFinding(finding, t)).toMatchObject({
+      title: 'Renouvellement automatique',
+      explanation: finding.explanation,
+      quote: finding.quote
+    });
+  });
+
+  it('leaves findings without a rule id unchanged', () => {
+    const finding = { category: 'other' as const, severity: 'low' as const, title: 'Model title', explanation: 'Model text', quote: '' };
+    expect(localizeFinding(finding, t)).toBe(finding);
+  });
+});
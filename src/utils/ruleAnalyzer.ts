@@ -0,0 +1,77 @@
+import { CLAUSE_RULES, RULES_VERSION } from './rulePatterns';
+import type { ClauseRule } from './rulePatterns';
+import { DEFAULT_CATEGORY_WEIGHTS, scoreFindings } from './riskScoring';
+import type { CategoryWeights } from './riskScoring';
+import type { TFunction } from 'i18next';
+import type { Finding, RuleCheck, TextSpan } from '../types/analysis';
+
+// Matches per rule; more would only repeat the same point
+const MAX_MATCHES_PER_RULE = 3;
+
+// Longer "sentences" are usually unpunctuated blocks where a match says little
+const MAX_SENTENCE_LENGTH = 600;
+
+// Sentences with their offsets in the original text, so quotes are exact substrings
+function splitSentences(text: string): { text: string; span: TextSpan }[] {
+  const sentences: { text: string; span: TextSpan }[] = [];
+  const pattern = /[^.!?\n]+(?:[.!?]+|$)/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const raw = match[0];
+    const leading = raw.length - raw.trimStart().length;
+    const sentence = raw.trim();
+    if (sentence.length < 20 || sentence.length > MAX_SENTENCE_LENGTH) continue;
+
+    const start = match.index + leading;
+    sentences.push({ text: sentence, span: { start, end: start + sentence.length } });
+  }
+
+  return sentences;
+}
+
+const matchesRule = (rule: ClauseRule, sentence: string): boolean =>
+  rule.patterns.some(pattern => pattern.test(sentence)) &&
+  !(rule.exclude ?? []).some(pattern => pattern.test(sentence));
+
+/**
+ * Deterministic clause detection with the local pattern library. Works
+ * without any model call, so it doubles as an offline fallback and as a
+ * cross-check for AI results.
+ */
+export function analyzeWithRules(text: string, weights: CategoryWeights = DEFAULT_CATEGORY_WEIGHTS): RuleCheck {
+  const sentences = splitSentences(text);
+  const findings: Finding[] = [];
+
+  for (const rule of CLAUSE_RULES) {
+    const matches = sentences.filter(sentence => matchesRule(rule, sentence.text)).slice(0, MAX_MATCHES_PER_RULE);
+    for (const sentence of matches) {
+      findings.push({
+        category: rule.category,
+        severity: rule.severity,
+        title: rule.title,
+        explanation: rule.explanation,
+        quote: sentence.text,
+        location: sentence.span,
+        ruleId: rule.id
+      });
+    }
+  }
+
+  const riskScore = scoreFindings(findings, weights);
+  return { version: RULES_VERSION, riskLevel: riskScore.level, riskScore, findings };
+}
+
+/**
+ * A finding with its title and explanation in the UI language. Only rule
+ * findings have translations; model findings are already written in the
+ * analysis language, and results saved before rule ids keep their text.
+ */
+export function localizeFinding(finding: Finding, t: TFunction): Finding {
+  if (!finding.ruleId) return finding;
+  return {
+    ...finding,
+    title: t(`popup:rules.${finding.ruleId}.title`, { defaultValue: finding.title }),
+    explanation: t(`popup:rules.${finding.ruleId}.explanation`, { defaultValue: finding.explanation })
+  };
+}
@@ -0,0 +1,115 @@
+import type { FindingCategory, Severity } from '../types/analysis';
+
+// Bump whenever a rule is added, removed or its patterns change; stored with every rule-based result
+export const RULES_VERSION = '1.0.0';
+
+export interface ClauseRule {
+  id: string;
+  category: FindingCategory;
+  severity: Severity;
+  title: string;
+  explanation: string;
+  // A sentence matches when any pattern matches...
+  patterns: RegExp[];
+  // ...and no exclusion does (mostly negations like "we do not sell")
+  exclude?: RegExp[];
+}
+
+export const CLAUSE_RULES: ClauseRule[] = [
+  {
+    id: 'mandatory-arbitration',
+    category: 'arbitration',
+    severity: 'high',
+    title: 'Mandatory arbitration',
+    explanation: 'Disputes go to a private arbitrator instead of a court.',
+    patterns: [
+      /\b(binding|mandatory|final and binding|individual) arbitration\b/i,
+      /\bdisputes?\b[^.]{0,120}\b(resolved|settled|submitted)\b[^.]{0,60}\barbitration\b/i
+    ],
+    exclude: [/\bnot (be )?(subject to|required to)\b[^.]{0,40}\barbitration\b/i]
+  },
+  {
+    id: 'class-action-waiver',
+    category: 'arbitration',
+    severity: 'high',
+    title: 'Class action waiver',
+    explanation: 'You give up the right to join a class action or group lawsuit.',
+    patterns: [
+      /\bclass[- ]action\b[^.]{0,120}\b(waive|waiver|not (participate|bring))\b/i,
+      /\b(waive|waiver)\b[^.]{0,120}\b(class[- ]action|class[- ]wide|representative (action|proceeding))/i,
+      /\bwaive\b[^.]{0,60}\bjury trial\b/i
+    ]
+  },
+  {
+    id: 'unilateral-changes',
+    category: 'changes-to-terms',
+    severity: 'medium',
+    title: 'Terms can change at any time',
+    explanation: 'The company can change the terms and your continued use counts as acceptance.',
+    patterns: [
+      /\b(may|reserve the right to)\b[^.]{0,40}\b(modify|change|amend|update|revise)\b[^.]{0,80}\b(terms|agreement|policy)\b[^.]{0,60}\b(at any time|without (prior )?notice|sole discretion)\b/i,
+      /\bcontinued use\b[^.]{0,80}\b(constitutes|means|deemed|signifies)\b[^.]{0,40}\baccept/i
+    ]
+  },
+  {
+    id: 'auto-renewal',
+    category: 'auto-renewal',
+    severity: 'medium',
+    title: 'Automatic renewal',
+    explanation: 'The subscription renews and charges you unless you cancel in time.',
+    patterns: [
+      /\b(automatically|auto-?)\s?renew/i,
+      /\brenews? automatically\b/i,
+      /\bcharged?\b[^.]{0,80}\buntil you cancel\b/i
+    ],
+    exclude: [/\b(will not|won't|does not|doesn't)\b[^.]{0,20}\b(automatically|auto-?)\s?renew/i]
+  },
+  {
+    id: 'broad-content-license',
+    category: 'content-license',
+    severity: 'high',
+    title: 'Broad license to your content',
+    explanation: 'The company gets wide, long-lasting rights to use what you upload.',
+    patterns: [
+      /\b(perpetual|irrevocable|sublicensable|transferable)\b[^.]{0,160}\blicen[cs]e\b/i,
+      /\blicen[cs]e\b[^.]{0,160}\b(perpetual|irrevocable|sublicensable)\b/i
+    ]
+  },
+  {
+    id: 'data-selling',
+    category: 'data-sharing',
+    severity: 'high',
+    title: 'Your data may be sold',
+    explanation: 'Personal information can be sold or rented to other companies.',
+    patterns: [
+      /\b(sell|rent|trade)\b[^.]{0,60}\b(personal|your) (data|information)\b/i,
+      /\b(personal|your) (data|information)\b[^.]{0,60}\b(sold|rented|sale of)\b/i
+    ],
+    exclude: [/\b(not|never|no|neither)\b[^.]{0,30}\b(sell|rent|trade|sold|sale)\b/i]
+  },
+  {
+    id: 'third-party-sharing',
+    category: 'data-sharing',
+    severity: 'medium',
+    title: 'Data shared with third parties',
+    explanation: 'Your information is shared with partners, advertisers or other third parties.',
+    patterns: [/\bshare\b[^.]{0,80}\b(third[- ]part|partners|advertis|affiliates)/i],
+    exclude: [/\b(not|never)\b[^.]{0,20}\bshare\b/i]
+  },
+  {
+    id: 'termination-at-will',
+    category: 'termination',
+    severity: 'medium',
+    title: 'Account can be terminated at will',
+    explanation: 'Your account or access can be cut off without notice or reason.',
+    patterns: [/\b(terminate|suspend)\b[^.]{0,100}\b(at any time|without (prior )?notice|for any reason|sole discretion)\b/i]
+  },
+  {
+    id: 'liability-limitation',
+    category: 'liability',
+    severity: 'medium',
+    title: 'Liability is limited',
+    explanation: 'The company limits what it owes you if something goes wrong.',
+    patterns: [/\b(in no event|shall not be liable|will not be liable|limitation of liability)\b/i]
+  }
+];
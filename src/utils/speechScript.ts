@@ -0,0 +1,45 @@
+import type { TFunction } from 'i18next';
+import { localizeFinding } from './ruleAnalyzer';
+import type { AnalysisResult } from '../types/analysis';
+import type { SpeechSegment } from '../services/SpeechPlayer';
+
+/**
+ * What read-aloud says for an analysis: the summary, then each finding (or,
+ * for results cached before findings existed, each red flag). `t` should be
+ * fixed to the language being spoken so labels match the voice.
+ */
+export function buildSpeechScript(result: AnalysisResult, t: TFunction): SpeechSegment[] {
+  // Rule-based summaries are generated locally, as in AnalysisDetails
+  const summary = result.source === 'rules'
+    ? t('popup:offlineAnalysis.summary', {
+      count: result.findings.length,
+      categories: new Set(result.findings.map(finding => finding.category)).size
+    })
+    : result.summary;
+
+  const segments: SpeechSegment[] = [{
+    text: t('popup:readAloud.summaryIntro', {
+      risk: t(`popup:analysis.riskLevels.${result.riskLevel}`),
+      summary
+    })
+  }];
+
+  if (result.findings?.length) {
+    result.findings.map(finding => localizeFinding(finding, t)).forEach((finding, index) => segments.push({
+      findingIndex: index,
+      text: t('popup:readAloud.finding', {
+        number: index + 1,
+        severity: t(`popup:findings.severity.${finding.severity}`),
+        title: finding.title,
+        explanation: finding.explanation
+      })
+    }));
+  } else {
+    result.redFlags.forEach((flag, index) => segments.push({
+      findingIndex: index,
+      text: t('popup:readAloud.redFlag', { number: index + 1, flag })
+    }));
+  }
+
+  return segments;
+}
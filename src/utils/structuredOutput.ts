@@ -0,0 +1,129 @@
+/**
+ * Parsing layer for model output that is supposed to be a JSON object.
+ * Models often wrap the object in code fences or add a sentence around it,
+ * so the object is extracted first and then checked against a small schema.
+ */
+
+export type SchemaNode =
+  | { type: 'string'; enum?: readonly string[]; optional?: boolean }
+  | { type: 'number' | 'boolean'; optional?: boolean }
+  | { type: 'array'; items?: SchemaNode; optional?: boolean }
+  | { type: 'object'; fields?: Record<string, SchemaNode>; optional?: boolean };
+
+export type StructuredParse<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+// Validation problems reported back to the model in a repair request are capped
+const MAX_REPORTED_ERRORS = 10;
+
+export class StructuredOutputError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Model response did not match the expected format: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+  }
+}
+
+// Returns the first balanced {...} in the text, ignoring fences and surrounding prose
+export function extractJsonObject(text: string): string | null {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < unfenced.length; i++) {
+    const char = unfenced[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return unfenced.substring(start, i + 1);
+  }
+
+  return null;
+}
+
+const describe = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.substring(0, 40)}…` : value);
+  return typeof value;
+};
+
+// Lists every mismatch, with a JSON path such as `$.findings[2].severity`
+export function validateSchema(value: unknown, schema: SchemaNode, path = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: expected one of ${schema.enum.join('|')}, got ${describe(value)}`];
+      }
+      return [];
+    case 'number':
+    case 'boolean':
+      return typeof value === schema.type ? [] : [`${path}: expected ${schema.type}, got ${describe(value)}`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+      return schema.items
+        ? value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`))
+        : [];
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describe(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.fields ?? {}).flatMap(([field, node]) => {
+        const fieldValue = record[field];
+        if (fieldValue === undefined || fieldValue === null) {
+          return node.optional ? [] : [`${path}.${field}: missing`];
+        }
+        return validateSchema(fieldValue, node, `${path}.${field}`);
+      });
+    }
+  }
+}
+
+export function parseStructured<T>(text: string, schema: SchemaNode): StructuredParse<T> {
+  const json = extractJsonObject(text);
+  if (json === null) {
+    return { ok: false, errors: ['$: no complete JSON object found in the response'] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { ok: false, errors: [`$: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+  }
+
+  const errors = validateSchema(value, schema);
+  return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+// Follow-up prompt asking the model to fix its own output
+export function buildRepairPrompt(originalPrompt: string, response: string, errors: string[]): string {
+  const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+  const more = errors.length > reported.length ? `\n- ...and ${errors.length - reported.length} more` : '';
+
+  return `${originalPrompt}
+
+Your previous response could not be used:
+${response}
+
+It had these problems:
+${reported.map(error => `- ${error}`).join('\n')}${more}
+
+Reply again with ONLY the corrected JSON object, following the structure above exactly.`;
+}
@@ -0,0 +1,212 @@
+import { FINDING_CATEGORIES } from '../types/analysis';
+import type { AnalysisResult, Finding } from '../types/analysis';
+import type { PrivacyPractices } from '../types/privacy';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+// Page context recorded alongside the analysis in every export
+export interface ExportMetadata {
+  url: string;
+  title?: string;
+  location?: string;
+  language: string;
+  exportedAt: number;
+}
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+const EXPORT_SCHEMA_VERSION = 1;
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toISOString();
+
+const categoryLabel = (category: string): string =>
+  category.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+const groupFindings = (findings: Finding[]) =>
+  FINDING_CATEGORIES
+    .map(category => ({ category, items: findings.filter(finding => finding.category === category) }))
+    .filter(group => group.items.length > 0);
+
+// Data practices as [heading, items] pairs; empty practices say so instead of disappearing
+const privacySections = (practices: PrivacyPractices): [string, string[]][] => {
+  const sections: [string, string[]][] = [
+    ['Data Collected', practices.dataCollected],
+    ['Purposes', practices.purposes],
+    ['Shared With', practices.sharing.map(item => `${item.recipient}${item.purpose ? ` — ${item.purpose}` : ''}`)],
+    ['Your Rights', practices.userRights.map(item => `${categoryLabel(item.right)}${item.description ? `: ${item.description}` : ''}`)],
+    ['Retention', practices.retention],
+    ['International Transfers', practices.crossBorderTransfers],
+    ["Children's Data", practices.childrenData]
+  ];
+  return sections.map(([heading, items]) => [heading, items.length > 0 ? items : ['Not mentioned in the policy']]);
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const metadataRows = (result: AnalysisResult, metadata: ExportMetadata): [string, string][] => [
+  ['URL', metadata.url],
+  ['Title', metadata.title || '-'],
+  ['Detected in', metadata.location || '-'],
+  ['Analyzed at', formatDate(result.timestamp)],
+  ['Exported at', formatDate(metadata.exportedAt)],
+  ['Language', metadata.language],
+  ['Model', result.model || '-'],
+  ['Risk level', result.riskLevel],
+  ['Risk score', result.riskScore
+    ? `${result.riskScore.score}/100 (${result.riskScore.breakdown.map(entry => `+${entry.points} ${categoryLabel(entry.category)}`).join(', ') || 'no findings'})`
+    : '-']
+];
+
+export function toMarkdown(result: AnalysisResult, metadata: ExportMetadata): string {
+  const lines: string[] = [
+    `# Terms Analysis: ${metadata.title || metadata.url}`,
+    '',
+    ...metadataRows(result, metadata).map(([label, value]) => `- **${label}:** ${value}`),
+    '',
+    '## Summary',
+    '',
+    result.summary
+  ];
+
+  if (result.keyPoints.length > 0) {
+    lines.push('', '## Key Points', '', ...result.keyPoints.map(point => `- ${point}`));
+  }
+
+  if (result.redFlags.length > 0) {
+    lines.push('', '## Important Concerns', '', ...result.redFlags.map(flag => `- ${flag}`));
+  }
+
+  if (result.changes?.assessment) {
+    const { assessment } = result.changes;
+    lines.push('', '## What Changed', '', `Since ${formatDate(result.changes.previousTimestamp)} (${assessment.significance} significance): ${assessment.summary}`);
+    if (assessment.items.length > 0) {
+      lines.push('', ...assessment.items.map(item => `- ${item.change}${item.impact ? ` — ${item.impact}` : ''}`));
+    }
+  }
+
+  if (result.privacy) {
+    lines.push('', '## Data Practices');
+    for (const [heading, items] of privacySections(result.privacy)) {
+      lines.push('', `### ${heading}`, '', ...items.map(item => `- ${item}`));
+    }
+  }
+
+  const groups = groupFindings(result.findings ?? []);
+  if (groups.length > 0) {
+    lines.push('', '## Findings');
+    for (const group of groups) {
+      lines.push('', `### ${categoryLabel(group.category)}`, '');
+      for (const finding of group.items) {
+        lines.push(`- **${finding.title || categoryLabel(finding.category)}** (${finding.severity} severity)`);
+        if (finding.explanation) lines.push(`  ${finding.explanation}`);
+        lines.push(`  > ${finding.quote.replace(/\s*\n\s*/g, ' ')}`);
+      }
+    }
+  }
+
+  lines.push('', '---', '', '_AI summaries are for informational purposes only. Always read the original terms._', '');
+  return lines.join('\n');
+}
+
+// Self-contained report with print styles so the browser can save it as PDF
+export function toHtmlReport(result: AnalysisResult, metadata: ExportMetadata): string {
+  const list = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+  const findingsHtml = groupFindings(result.findings ?? []).map(group => `
+    <h3>${escapeHtml(categoryLabel(group.category))}</h3>
+    ${group.items.map(finding => `
+      <div class="finding ${finding.severity}">
+        <strong>${escapeHtml(finding.title || categoryLabel(finding.category))}</strong>
+        <span class="severity">${escapeHtml(finding.severity)}</span>
+        ${finding.explanation ? `<p>${escapeHtml(finding.explanation)}</p>` : ''}
+        <blockquote>${escapeHtml(finding.quote)}</blockquote>
+      </div>`).join('')}`).join('');
+
+  return `<!doctype html>
+<html lang="${escapeHtml(metadata.language)}">
+<head>
+<meta charset="UTF-8" />
+<title>Terms Analysis: ${escapeHtml(metadata.title || metadata.url)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 800px; margin: 2rem auto; color: #111827; line-height: 1.5; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; }
+  td { padding: 0.25rem 1rem 0.25rem 0; vertical-align: top; }
+  td:first-child { font-weight: 600; white-space: nowrap; }
+  .finding { border-left: 4px solid #d1d5db; padding: 0.5rem 1rem; margin: 0.75rem 0; page-break-inside: avoid; }
+  .finding.high { border-color: #dc2626; }
+  .finding.medium { border-color: #ca8a04; }
+  .finding.low { border-color: #16a34a; }
+  .severity { font-size: 0.75rem; text-transform: uppercase; color: #6b7280; margin-left: 0.5rem; }
+  blockquote { margin: 0.5rem 0 0; font-style: italic; color: #4b5563; }
+  footer { margin-top: 2rem; font-size: 0.8rem; color: #6b7280; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<h1>Terms Analysis</h1>
+<table>
+${metadataRows(result, metadata).map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+<h2>Summary</h2>
+<p>${escapeHtml(result.summary)}</p>
+${result.keyPoints.length > 0 ? `<h2>Key Points</h2>${list(result.keyPoints)}` : ''}
+${result.redFlags.length > 0 ? `<h2>Important Concerns</h2>${list(result.redFlags)}` : ''}
+${result.changes?.assessment ? `<h2>What Changed</h2><p>${escapeHtml(result.changes.assessment.summary)}</p>${list(result.changes.assessment.items.map(item => `${item.change}${item.impact ? ` — ${item.impact}` : ''}`))}` : ''}
+${result.privacy ? `<h2>Data Practices</h2>${privacySections(result.privacy).map(([heading, items]) => `<h3>${escapeHtml(heading)}</h3>${list(items)}`).join('')}` : ''}
+${findingsHtml ? `<h2>Findings</h2>${findingsHtml}` : ''}
+<footer>AI summaries are for informational purposes only. Always read the original terms. Use your browser's Print dialog to save this report as PDF.</footer>
+</body>
+</html>
+`;
+}
+
+export function toJson(result: AnalysisResult, metadata: ExportMetadata): string {
+  return JSON.stringify({
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    metadata: {
+      ...metadata,
+      exportedAt: formatDate(metadata.exportedAt),
+      analyzedAt: formatDate(result.timestamp),
+      model: result.model ?? null
+    },
+    analysis: result
+  }, null, 2);
+}
+
+export function buildExport(format: ExportFormat, result: AnalysisResult, metadata: ExportMetadata): ExportFile {
+  let host = 'page';
+  try {
+    host = new URL(metadata.url).hostname.replace(/[^a-z0-9.-]/gi, '_');
+  } catch {
+    // Keep the generic name for unparseable URLs
+  }
+  const basename = `terms-analysis-${host}-${new Date(metadata.exportedAt).toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'markdown':
+      return { content: toMarkdown(result, metadata), mimeType: 'text/markdown', filename: `${basename}.md` };
+    case 'html':
+      return { content: toHtmlReport(result, metadata), mimeType: 'text/html', filename: `${basename}.html` };
+    case 'json':
+      return { content: toJson(result, metadata), mimeType: 'application/json', filename: `${basename}.json` };
+  }
+}
+
+export function downloadExport(file: ExportFile) {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
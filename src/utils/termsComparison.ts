@@ -0,0 +1,77 @@
+import { FINDING_CATEGORIES } from '../types/analysis';
+import type { AnalysisResult, RiskLevel, RiskScore } from '../types/analysis';
+import type { CategoryComparison, ComparedService, ComparisonVerdict, TermsComparison } from '../types/comparison';
+import { scoreFindings } from './riskScoring';
+import type { CategoryWeights } from './riskScoring';
+
+export interface ComparisonInput {
+  url: string;
+  title: string;
+  result: AnalysisResult;
+}
+
+const LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+const verdict = (left: number, right: number): ComparisonVerdict =>
+  left === right ? 'tie' : left < right ? 'left' : 'right';
+
+// Results without a risk score (older or synced entries) carry no clause findings to score
+const scoreOf = (input: ComparisonInput, weights?: CategoryWeights): RiskScore | null =>
+  input.result.riskScore ? scoreFindings(input.result.findings ?? [], weights) : null;
+
+const describe = (input: ComparisonInput, score: RiskScore | null): ComparedService => ({
+  url: input.url,
+  title: input.title,
+  score: score?.score,
+  riskLevel: score?.level ?? input.result.riskLevel
+});
+
+/**
+ * Lines up two analyses category by category. Both sides are re-scored with
+ * the same weights, so results made under different settings stay comparable.
+ * A side without clause findings is only compared by its stored risk level.
+ */
+export function compareAnalyses(
+  left: ComparisonInput,
+  right: ComparisonInput,
+  weights?: CategoryWeights
+): Omit<TermsComparison, 'narrative'> {
+  const leftScore = scoreOf(left, weights);
+  const rightScore = scoreOf(right, weights);
+  const pointsIn = (score: RiskScore | null, category: string) =>
+    score?.breakdown.find(entry => entry.category === category)?.points ?? 0;
+  const titlesIn = (input: ComparisonInput, score: RiskScore | null, category: string) => score
+    ? (input.result.findings ?? []).filter(finding => finding.category === category).map(finding => finding.title)
+    : [];
+
+  const categories: CategoryComparison[] = FINDING_CATEGORIES.flatMap(category => {
+    const leftTitles = titlesIn(left, leftScore, category);
+    const rightTitles = titlesIn(right, rightScore, category);
+    if (leftTitles.length === 0 && rightTitles.length === 0) return [];
+
+    const leftPoints = pointsIn(leftScore, category);
+    const rightPoints = pointsIn(rightScore, category);
+    return [{
+      category,
+      left: { points: leftPoints, titles: leftTitles },
+      right: { points: rightPoints, titles: rightTitles },
+      // A side with nothing to show isn't better for it
+      better: leftScore && rightScore ? verdict(leftPoints, rightPoints) : 'tie'
+    }];
+  });
+
+  const leftService = describe(left, leftScore);
+  const rightService = describe(right, rightScore);
+  const approximate = !leftScore || !rightScore;
+
+  return {
+    left: leftService,
+    right: rightService,
+    categories,
+    better: leftScore && rightScore
+      ? verdict(leftScore.score, rightScore.score)
+      : verdict(LEVEL_RANK[leftService.riskLevel], LEVEL_RANK[rightService.riskLevel]),
+    ...(approximate && { approximate }),
+    timestamp: Date.now()
+  };
+}
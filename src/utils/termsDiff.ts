@@ -0,0 +1,139 @@
+import { isHeading } from './textChunker';
+import type { DiffEntry, DiffType } from '../types/changes';
+
+interface Paragraph {
+  text: string;
+  key: string;
+  section?: string;
+}
+
+// Above this many LCS cells, fall back to a cheaper set comparison
+const MAX_LCS_CELLS = 4_000_000;
+
+// Removed/added pairs this similar are reported as one modified paragraph
+const MODIFIED_THRESHOLD = 0.5;
+
+const toParagraphs = (text: string): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  let section: string | undefined;
+
+  for (const block of text.split(/\n+/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    if (isHeading(trimmed)) section = trimmed;
+    paragraphs.push({
+      text: trimmed,
+      key: trimmed.replace(/\s+/g, ' ').toLowerCase(),
+      section
+    });
+  }
+
+  return paragraphs;
+};
+
+const wordSimilarity = (a: string, b: string): number => {
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / Math.max(wordsA.size + wordsB.size - shared, 1);
+};
+
+type Operation = { type: 'equal' | 'removed' | 'added'; paragraph: Paragraph };
+
+const lcsOperations = (before: Paragraph[], after: Paragraph[]): Operation[] => {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i * cols + j] = before[i].key === after[j].key
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const operations: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i].key === after[j].key) {
+      operations.push({ type: 'equal', paragraph: after[j] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      operations.push({ type: 'removed', paragraph: before[i++] });
+    } else {
+      operations.push({ type: 'added', paragraph: after[j++] });
+    }
+  }
+  while (i < before.length) operations.push({ type: 'removed', paragraph: before[i++] });
+  while (j < after.length) operations.push({ type: 'added', paragraph: after[j++] });
+
+  return operations;
+};
+
+// Order-insensitive fallback for very large documents
+const setOperations = (before: Paragraph[], after: Paragraph[]): Operation[] => {
+  const beforeKeys = new Set(before.map(paragraph => paragraph.key));
+  const afterKeys = new Set(after.map(paragraph => paragraph.key));
+  return [
+    ...before.filter(paragraph => !afterKeys.has(paragraph.key)).map(paragraph => ({ type: 'removed' as const, paragraph })),
+    ...after.filter(paragraph => !beforeKeys.has(paragraph.key)).map(paragraph => ({ type: 'added' as const, paragraph }))
+  ];
+};
+
+/**
+ * Paragraph-level diff between two versions of a document. Adjacent
+ * removals and additions that mostly overlap become "modified" entries.
+ */
+export function diffTerms(previous: string, current: string): DiffEntry[] {
+  const before = toParagraphs(previous);
+  const after = toParagraphs(current);
+  const operations = before.length * after.length > MAX_LCS_CELLS
+    ? setOperations(before, after)
+    : lcsOperations(before, after);
+
+  const entries: DiffEntry[] = [];
+  let removed: Paragraph[] = [];
+  let added: Paragraph[] = [];
+
+  const flush = () => {
+    for (const paragraph of added) {
+      const matchIndex = removed.findIndex(candidate => wordSimilarity(candidate.key, paragraph.key) >= MODIFIED_THRESHOLD);
+      if (matchIndex >= 0) {
+        const [match] = removed.splice(matchIndex, 1);
+        entries.push({ type: 'modified', before: match.text, after: paragraph.text, section: paragraph.section });
+      } else {
+        entries.push({ type: 'added', after: paragraph.text, section: paragraph.section });
+      }
+    }
+    for (const paragraph of removed) {
+      entries.push({ type: 'removed', before: paragraph.text, section: paragraph.section });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const operation of operations) {
+    if (operation.type === 'equal') {
+      flush();
+    } else if (operation.type === 'removed') {
+      removed.push(operation.paragraph);
+    } else {
+      added.push(operation.paragraph);
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+export function diffStats(entries: DiffEntry[]): Record<DiffType, number> {
+  const stats: Record<DiffType, number> = { added: 0, removed: 0, modified: 0 };
+  entries.forEach(entry => stats[entry.type]++);
+  return stats;
+}
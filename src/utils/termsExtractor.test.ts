@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { extractLinkedDocument, extractTermsFromHtml } from './termsExtractor';
+import termsPage from './__fixtures__/terms-page.html?raw';
+import embeddedTerms from './__fixtures__/embedded-terms.html?raw';
+
+describe('extractTermsFromHtml', () => {
+  it('treats a page titled as terms as the document, without navigation and footer', () => {
+    const result = extractTermsFromHtml(termsPage, 'https://acme.example/legal');
+    expect(result.found).toBe(true);
+    expect(result.location).toBe('page');
+    expect(result.title).toBe('Acme & Co – Terms of Service');
+    expect(result.documentType).toBe('terms');
+    expect(result.content).toContain('binding arbitration — you waive any right to a jury trial.');
+    expect(result.content).not.toContain('Pricing');
+    expect(result.content).not.toContain('© 2024 Acme');
+  });
+
+  it('finds terms embedded in a content container', () => {
+    const result = extractTermsFromHtml(embeddedTerms, 'https://example.com/signup');
+    expect(result.found).toBe(true);
+    expect(result.location).toBe('main-content');
+    expect(result.content?.startsWith('These terms and conditions form a user agreement')).toBe(true);
+    expect(result.content).not.toContain('Sign up');
+  });
+
+  it('finds nothing on an ordinary page', () => {
+    const result = extractTermsFromHtml('<title>Blog</title><main><p>Hello world.</p></main>', 'https://example.com/blog');
+    expect(result).toEqual({ found: false });
+  });
+});
+
+describe('extractLinkedDocument', () => {
+  it('marks detected documents as linked', () => {
+    const result = extractLinkedDocument(termsPage, 'https://acme.example/legal');
+    expect(result.found).toBe(true);
+    expect(result.location).toBe('linked');
+  });
+
+  it('falls back to a substantial main element when detection is inconclusive', () => {
+    const body = 'We run this site for our customers. '.repeat(20);
+    const result = extractLinkedDocument(`<title>Legal</title><nav>Menu</nav><main><p>${body}</p></main>`, 'https://example.com/legal');
+    expect(result.found).toBe(true);
+    expect(result.location).toBe('linked');
+    expect(result.content).toBe(body.trim());
+  });
+
+  it('gives up on short pages', () => {
+    const result = extractLinkedDocument('<title>Legal</title><main><p>Coming soon.</p></main>', 'https://example.com/legal');
+    expect(result).toEqual({ found: false });
+  });
+});
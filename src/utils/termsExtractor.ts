@@ -0,0 +1,82 @@
+import { elementToText, parseHtml, querySelector, textContent } from './htmlToText';
+import type { HtmlElement } from './htmlToText';
+import {
+  calculateConfidence,
+  containsPrivacyIndicators,
+  containsTermsIndicators,
+  CONFIDENCE_THRESHOLD,
+  CONTENT_SELECTORS,
+  MIN_ELEMENT_TEXT_LENGTH,
+  MIN_PAGE_TEXT_LENGTH,
+  PAGE_EXCLUDE_SELECTORS
+} from './termsHeuristics';
+import { classifyDocument } from './documentClassifier';
+import type { TermsDetectionResult } from '../types/detection';
+
+/**
+ * Runs TermsDetector's page and embedded-content strategies on raw HTML.
+ * Modals are skipped: without layout there's no way to tell which are visible.
+ */
+export function extractTermsFromHtml(html: string, url: string): TermsDetectionResult {
+  const { title, body } = parseDocument(html);
+  return classified(detectInDocument(title, body, url), url);
+}
+
+/**
+ * Extracts a document the user followed a Terms or Privacy link to. The link
+ * already says what the page is, so when detection is inconclusive the main
+ * content (or the page minus navigation) is used as long as it's substantial.
+ */
+export function extractLinkedDocument(html: string, url: string): TermsDetectionResult {
+  const { title, body } = parseDocument(html);
+  const detected = detectInDocument(title, body, url);
+  if (detected.found) {
+    return classified({ ...detected, location: 'linked' }, url);
+  }
+
+  const main = CONTENT_SELECTORS
+    .map(selector => querySelector(body, selector))
+    .find((element): element is HtmlElement => element !== null);
+  const content = main
+    ? elementToText(main)
+    : elementToText(body, PAGE_EXCLUDE_SELECTORS.join(', '));
+
+  if (content.length > MIN_PAGE_TEXT_LENGTH) {
+    return classified({ found: true, content, location: 'linked', title }, url);
+  }
+  return { found: false };
+}
+
+function classified(result: TermsDetectionResult, url: string): TermsDetectionResult {
+  if (!result.found || !result.content) return result;
+  return { ...result, documentType: classifyDocument(result.content, result.title, url) };
+}
+
+function parseDocument(html: string): { title: string; body: HtmlElement } {
+  const root = parseHtml(html);
+  const titleElement = querySelector(root, 'title');
+  const title = titleElement ? textContent(titleElement).replace(/\s+/g, ' ').trim() : '';
+  return { title, body: querySelector(root, 'body') ?? root };
+}
+
+function detectInDocument(title: string, body: HtmlElement, url: string): TermsDetectionResult {
+  if (containsTermsIndicators(title) || containsTermsIndicators(url) ||
+      containsPrivacyIndicators(title) || containsPrivacyIndicators(url)) {
+    const content = elementToText(body, PAGE_EXCLUDE_SELECTORS.join(', '));
+    if (content.length > MIN_PAGE_TEXT_LENGTH) {
+      return { found: true, content, location: 'page', title };
+    }
+  }
+
+  for (const selector of CONTENT_SELECTORS) {
+    const element = querySelector(body, selector);
+    if (!element) continue;
+
+    const content = elementToText(element);
+    if (content.length >= MIN_ELEMENT_TEXT_LENGTH && calculateConfidence(content) > CONFIDENCE_THRESHOLD) {
+      return { found: true, content, location: 'main-content', title };
+    }
+  }
+
+  return { found: false };
+}
@@ -0,0 +1,96 @@
+// Detection heuristics shared by the content script and the background fetcher
+
+export const TERMS_INDICATORS = [
+  'terms of service', 'terms and conditions', 'user agreement',
+  'terms of use', 'service agreement', 'legal terms'
+];
+
+export const PRIVACY_INDICATORS = [
+  'privacy policy', 'privacy notice', 'privacy statement',
+  'data protection policy', 'data policy'
+];
+
+const LEGAL_PATTERNS = [
+  'hereby agree', 'privacy policy', 'liability', 'jurisdiction',
+  'governing law', 'dispute resolution', 'termination'
+];
+
+// Elements left out when a whole page is treated as the terms document
+export const PAGE_EXCLUDE_SELECTORS = [
+  'nav', 'header', 'footer', '.navigation', '.nav',
+  '.sidebar', '.menu', '.breadcrumb'
+];
+
+// Containers searched for embedded terms, in priority order
+export const CONTENT_SELECTORS = [
+  'main', '[role="main"]', '.main-content', '.content',
+  '.terms-content', '.legal-content', '.agreement-content'
+];
+
+// Dialogs searched first, since consent prompts usually open in one
+export const MODAL_SELECTORS = [
+  '.modal', '.popup', '.dialog', '[role="dialog"]', '[aria-modal="true"]'
+];
+
+// Controls whose label can ask the user to accept terms
+export const AGREEMENT_BUTTON_SELECTORS = [
+  'button', 'input[type="submit"]', 'input[type="button"]', '[role="button"]'
+];
+export const AGREEMENT_CONTROL_SELECTORS = ['input[type="checkbox"]', ...AGREEMENT_BUTTON_SELECTORS];
+
+// Wording of checkboxes and buttons that ask the user to accept terms
+export const AGREEMENT_PATTERNS = [
+  /\bi (have read and )?(agree|accept|consent)\b/i,
+  /\b(agree|accept|consent)( to)? (the |these |our )?(terms|conditions|privacy|user agreement|eula)/i,
+  /\b(agree|accept) (and|&) (continue|sign up|create account|register)\b/i
+];
+
+// Minimum text lengths and confidence used by every detection strategy
+export const MIN_ELEMENT_TEXT_LENGTH = 200;
+export const MIN_PAGE_TEXT_LENGTH = 500;
+export const CONFIDENCE_THRESHOLD = 0.6;
+
+export function calculateConfidence(text: string): number {
+  let confidence = 0;
+  const lowerText = text.toLowerCase();
+
+  // Check for terms indicators
+  const termsMatches = TERMS_INDICATORS.filter(indicator =>
+    lowerText.includes(indicator)
+  ).length;
+  confidence += termsMatches * 0.2;
+
+  // Check for legal language patterns
+  const legalMatches = LEGAL_PATTERNS.filter(pattern =>
+    lowerText.includes(pattern)
+  ).length;
+  confidence += legalMatches * 0.1;
+
+  // Check text length
+  if (text.length > 1000) confidence += 0.1;
+  if (text.length > 5000) confidence += 0.1;
+  if (text.length < 500) confidence -= 0.3;
+
+  return Math.min(confidence, 1.0);
+}
+
+export function containsTermsIndicators(text: string): boolean {
+  const lowerText = text.toLowerCase();
+  return TERMS_INDICATORS.some(indicator =>
+    lowerText.includes(indicator)
+  );
+}
+
+export function containsPrivacyIndicators(text: string): boolean {
+  const lowerText = text.toLowerCase();
+  return PRIVACY_INDICATORS.some(indicator =>
+    lowerText.includes(indicator)
+  ) || /privacy[-_]?(policy|notice)?(\.\w+)?\/?($|[?#])/.test(lowerText);
+}
+
+export function isAgreementText(text: string): boolean {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  // Long labels are usually whole paragraphs, not a consent control
+  return normalized.length > 0 && normalized.length <= 300 &&
+    AGREEMENT_PATTERNS.some(pattern => pattern.test(normalized));
+}
@@ -0,0 +1,93 @@
+import type { DocumentType } from '../types/analysis';
+import type { LinkedDocument } from '../types/detection';
+
+// Where on the page a link was found; earlier contexts are more likely the terms being agreed to
+export type LinkContext = 'rel' | 'consent' | 'footer' | 'page';
+
+export interface LinkCandidate {
+  href: string;
+  text: string;
+  rel?: string;
+  context: LinkContext;
+}
+
+const CONTEXT_PRIORITY: LinkContext[] = ['rel', 'consent', 'footer', 'page'];
+
+const REL_KINDS: Record<string, DocumentType> = {
+  'terms-of-service': 'terms',
+  'privacy-policy': 'privacy'
+};
+
+const TEXT_PATTERNS: { kind: DocumentType; pattern: RegExp }[] = [
+  { kind: 'terms', pattern: /\b(terms( of (service|use|sale))?|terms (and|&) conditions|conditions of use|user agreement|eula|legal terms)\b/i },
+  { kind: 'privacy', pattern: /\b(privacy( policy| notice| statement)?|data (policy|protection))\b/i }
+];
+
+const HREF_PATTERNS: { kind: DocumentType; pattern: RegExp }[] = [
+  { kind: 'terms', pattern: /\/(terms|tos|terms-of-(service|use)|conditions|user-agreement|eula)(\.\w+)?\/?($|[?#])/i },
+  { kind: 'privacy', pattern: /\/(privacy|privacy-policy|privacy-notice|data-policy)(\.\w+)?\/?($|[?#])/i }
+];
+
+// Link texts longer than this are sentences that merely mention the terms
+const MAX_LINK_TEXT_LENGTH = 80;
+
+// Enough to cover separate terms, privacy and cookie documents without flooding the popup
+export const MAX_LINKED_DOCUMENTS = 6;
+
+const stripHash = (url: URL): string => {
+  const copy = new URL(url.href);
+  copy.hash = '';
+  return copy.href;
+};
+
+export function classifyLink(candidate: LinkCandidate): DocumentType | null {
+  for (const rel of (candidate.rel || '').toLowerCase().split(/\s+/)) {
+    if (REL_KINDS[rel]) return REL_KINDS[rel];
+  }
+
+  const text = candidate.text.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_LINK_TEXT_LENGTH) {
+    const byText = TEXT_PATTERNS.find(({ pattern }) => pattern.test(text));
+    if (byText) return byText.kind;
+  }
+
+  const byHref = HREF_PATTERNS.find(({ pattern }) => pattern.test(candidate.href));
+  return byHref ? byHref.kind : null;
+}
+
+/**
+ * Turns the links found on a page into a deduplicated list of terms and
+ * privacy documents, most relevant first. Links back to the page itself are dropped.
+ */
+export function collectLinkedDocuments(candidates: LinkCandidate[], pageUrl: string): LinkedDocument[] {
+  const page = stripHash(new URL(pageUrl));
+  const byUrl = new Map<string, LinkedDocument & { priority: number }>();
+
+  for (const candidate of candidates) {
+    let url: URL;
+    try {
+      url = new URL(candidate.href, pageUrl);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') continue;
+
+    const href = stripHash(url);
+    if (href === page) continue;
+
+    const kind = classifyLink({ ...candidate, href });
+    if (!kind) continue;
+
+    const priority = CONTEXT_PRIORITY.indexOf(candidate.context);
+    const existing = byUrl.get(href);
+    if (existing && existing.priority <= priority) continue;
+
+    const text = candidate.text.replace(/\s+/g, ' ').trim();
+    byUrl.set(href, { url: href, kind, text: text || href, priority });
+  }
+
+  return [...byUrl.values()]
+    .sort((a, b) => a.priority - b.priority)
+    .slice(0, MAX_LINKED_DOCUMENTS)
+    .map(({ url, kind, text }) => ({ url, kind, text }));
+}
@@ -0,0 +1,96 @@
+export interface TextChunk {
+  index: number;
+  text: string;
+  // Character offsets of the chunk within the original text
+  start: number;
+  end: number;
+  heading?: string;
+}
+
+interface Section {
+  start: number;
+  end: number;
+  heading?: string;
+}
+
+export const DEFAULT_CHUNK_LENGTH = 12000;
+
+// Numbered clauses ("12. Fees", "Section 4", "ARTICLE IX")
+const HEADING_PATTERN = /^(?:(?:section|article|part|clause)\s+[\divxlc]+\b|\d+(?:\.\d+)*[.)]?\s+\S)/i;
+
+export const isHeading = (line: string): boolean => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 100) return false;
+  if (/[.;:,]$/.test(trimmed) && !/^\d+(?:\.\d+)*\.$/.test(trimmed)) return false;
+  // Short all-caps lines ("LIMITATION OF LIABILITY") are headings too
+  return HEADING_PATTERN.test(trimmed) || (trimmed.length < 60 && trimmed === trimmed.toUpperCase() && /[A-Z]/.test(trimmed));
+};
+
+// Splits the document into sections starting at each heading line
+const findSections = (text: string): Section[] => {
+  const sections: Section[] = [];
+  let current: Section = { start: 0, end: 0 };
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    if (isHeading(line) && offset > current.start) {
+      current.end = offset;
+      sections.push(current);
+      current = { start: offset, end: offset, heading: line.trim() };
+    } else if (isHeading(line) && !current.heading) {
+      current.heading = line.trim();
+    }
+    offset += line.length + 1;
+  }
+
+  current.end = text.length;
+  if (current.end > current.start) sections.push(current);
+  return sections;
+};
+
+// Finds the last natural break (paragraph, line, sentence, word) before `limit`
+const findBreak = (text: string, start: number, limit: number): number => {
+  const window = text.substring(start, limit);
+  const minimum = Math.floor(window.length / 2);
+  for (const separator of ['\n\n', '\n', '. ', ' ']) {
+    const index = window.lastIndexOf(separator);
+    if (index > minimum) return start + index + separator.length;
+  }
+  return limit;
+};
+
+/**
+ * Splits text into chunks no longer than `maxLength`, keeping whole sections
+ * together where possible and falling back to paragraph and sentence breaks.
+ */
+export function chunkText(text: string, maxLength: number = DEFAULT_CHUNK_LENGTH): TextChunk[] {
+  const ranges: Section[] = [];
+
+  for (const section of findSections(text)) {
+    const last = ranges[ranges.length - 1];
+    if (last && section.end - last.start <= maxLength) {
+      last.end = section.end;
+      continue;
+    }
+
+    let start = section.start;
+    let heading = section.heading;
+    while (section.end - start > maxLength) {
+      const end = findBreak(text, start, start + maxLength);
+      ranges.push({ start, end, heading });
+      start = end;
+    }
+    ranges.push({ start, end: section.end, heading });
+  }
+
+  return ranges
+    .map(range => ({ ...range, text: text.substring(range.start, range.end).trim() }))
+    .filter(range => range.text.length > 0)
+    .map((range, index) => ({
+      index,
+      text: range.text,
+      start: range.start,
+      end: range.end,
+      heading: range.heading
+    }));
+}
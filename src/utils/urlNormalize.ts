@@ -0,0 +1,24 @@
+// Query parameters that only track where a visit came from
+const TRACKING_PARAMS = [/^utm_/, /^fbclid$/, /^gclid$/, /^msclkid$/, /^mc_(cid|eid)$/, /^ref$/, /^ref_src$/, /^_ga$/, /^_gl$/];
+
+/**
+ * Canonical form of a page URL for cache aliases: no fragment, no tracking
+ * parameters, sorted query, lower-case host without "www." and no trailing slash.
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !TRACKING_PARAMS.some(pattern => pattern.test(name.toLowerCase())))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const host = parsed.host.toLowerCase().replace(/^www\./, '');
+  const path = parsed.pathname.replace(/\/+$/, '') || '/';
+
+  return `${parsed.protocol}//${host}${path}${query ? `?${query}` : ''}`;
+}